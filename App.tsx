@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { ViewState, ReaderSettings } from './types';
+import { ViewState, ReaderSettings, ReaderFocus } from './types';
 import { Library } from './components/Library';
 import { NovelDashboard } from './components/NovelDashboard';
 import { GlossaryManager } from './components/GlossaryManager';
 import { Reader } from './components/Reader';
 import { db } from './services/db';
+import { resumeTranslationQueue } from './services/translationQueue';
 
 export default function App() {
   const [viewState, setViewState] = useState<ViewState>({ view: 'library' });
@@ -17,10 +18,16 @@ export default function App() {
       lineHeight: 1.8,
       fontFamily: 'sans',
       showOriginal: false,
+      splitLayout: 'columns',
       theme: 'light'
     };
   });
 
+  // Bulk translation jobs survive reloads: pick them up where they stopped
+  useEffect(() => {
+    resumeTranslationQueue();
+  }, []);
+
   // Apply Theme
   useEffect(() => {
     if (settings.theme === 'dark') {
@@ -46,8 +53,8 @@ export default function App() {
     setViewState(prev => ({ ...prev, view: 'glossary' }));
   };
 
-  const openReader = (chapterId: number) => {
-    setViewState(prev => ({ ...prev, view: 'reader', chapterId }));
+  const openReader = (chapterId: number, focus?: ReaderFocus) => {
+    setViewState(prev => ({ ...prev, view: 'reader', chapterId, focus }));
   };
 
   const handleReaderNavigate = async (direction: 'next' | 'prev') => {
@@ -62,7 +69,7 @@ export default function App() {
       .first();
 
     if (targetChapter && targetChapter.id) {
-      setViewState(prev => ({ ...prev, chapterId: targetChapter.id }));
+      setViewState(prev => ({ ...prev, chapterId: targetChapter.id, focus: undefined }));
     } 
   };
 
@@ -90,6 +97,7 @@ export default function App() {
           <GlossaryManager 
             novelId={viewState.novelId} 
             onBack={() => setViewState({ view: 'novel', novelId: viewState.novelId })} 
+            onOpenReader={openReader}
           />
         );
       }
@@ -99,6 +107,7 @@ export default function App() {
         content = (
           <Reader 
             chapterId={viewState.chapterId}
+            focus={viewState.focus}
             onBack={() => setViewState({ view: 'novel', novelId: viewState.novelId })}
             onNavigate={handleReaderNavigate}
             settings={settings}
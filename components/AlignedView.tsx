@@ -0,0 +1,97 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { sourceParagraphs } from '../services/alignment';
+import { Language, ReaderSettings, TranslationSegment } from '../types';
+
+interface Props {
+  content: string;
+  segments: TranslationSegment[];
+  target: Language;
+  settings: ReaderSettings;
+  renderSource: (start: number, end: number) => React.ReactNode; // Source slice with its marks
+  onSourceMouseUp: () => void;
+  onChangeSegment: (index: number, text: string) => void;
+}
+
+const fontClass = (settings: ReaderSettings) =>
+  settings.fontFamily === 'serif' ? 'font-serif' : settings.fontFamily === 'mono' ? 'font-mono' : 'font-sans';
+
+// Textarea that grows with its text, so rows never scroll on their own
+const SegmentEditor: React.FC<{
+  value: string;
+  target: Language;
+  settings: ReaderSettings;
+  onChange: (text: string) => void;
+}> = ({ value, target, settings, onChange }) => {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  useLayoutEffect(() => {
+    if (!ref.current) return;
+    ref.current.style.height = 'auto';
+    ref.current.style.height = `${ref.current.scrollHeight}px`;
+  }, [value, settings.fontSize, settings.lineHeight, settings.splitLayout]);
+
+  return (
+    <textarea
+      ref={ref}
+      dir={target.dir}
+      value={value}
+      rows={1}
+      placeholder="Not translated"
+      onChange={e => onChange(e.target.value)}
+      className={`w-full bg-transparent border-none resize-none overflow-hidden p-0 focus:ring-0 ${target.fontClass} ${fontClass(settings)} text-slate-800 dark:text-slate-200 placeholder:italic`}
+      style={{ fontSize: `${settings.fontSize}px`, lineHeight: settings.lineHeight }}
+    />
+  );
+};
+
+/**
+ * Bilingual reader: one row per aligned segment, source beside (or above)
+ * its translation. Rows share one scroll, so both sides stay in step.
+ */
+export const AlignedView: React.FC<Props> = ({
+  content, segments, target, settings, renderSource, onSourceMouseUp, onChangeSegment
+}) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const ranges = useMemo(() => sourceParagraphs(content), [content]);
+  const interleaved = settings.splitLayout === 'interleaved';
+
+  const renderRowSource = (segment: TranslationSegment) =>
+    segment.from < segment.to
+      ? renderSource(ranges[segment.from].start, ranges[segment.to - 1].end)
+      : <span className="italic text-slate-400">No source paragraph</span>;
+
+  const sourceClass = `whitespace-pre-wrap leading-relaxed text-slate-600 dark:text-slate-400 ${fontClass(settings)}`;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 sm:rounded-2xl sm:shadow-lg sm:p-8">
+      {!interleaved && (
+        <div className="hidden lg:grid grid-cols-2 gap-8 sticky top-16 z-10 bg-white dark:bg-slate-900 py-2 mb-2 text-xs font-bold text-slate-400 uppercase tracking-widest">
+          <span>Original</span>
+          <span>Translation ({target.name})</span>
+        </div>
+      )}
+      {segments.map((segment, i) => (
+        <div
+          key={i}
+          onMouseEnter={() => setHovered(i)}
+          onMouseLeave={() => setHovered(current => (current === i ? null : current))}
+          className={`rounded-lg px-3 py-3 -mx-3 transition-colors ${hovered === i ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}
+            ${interleaved ? 'space-y-2' : 'grid lg:grid-cols-2 gap-2 lg:gap-8'}`}
+        >
+          <div
+            onMouseUp={onSourceMouseUp}
+            className={`${sourceClass} ${hovered === i ? 'text-slate-800 dark:text-slate-200' : ''}`}
+            style={{ fontSize: `${settings.fontSize * (interleaved ? 0.8 : 0.9)}px` }}
+          >
+            {renderRowSource(segment)}
+          </div>
+          <SegmentEditor
+            value={segment.text}
+            target={target}
+            settings={settings}
+            onChange={text => onChangeSegment(i, text)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { CATEGORY_COLORS, categoryBadgeClass, saveCategories } from '../services/categories';
+import { CategoryDefinition } from '../types';
+import { X, Tags, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+  novelId: number;
+  categories: CategoryDefinition[];
+  onClose: () => void;
+}
+
+// Rows keep the name they were loaded with, so renames can be applied to terms
+interface Row extends CategoryDefinition {
+  loadedAs?: string;
+}
+
+export const CategoryEditor: React.FC<Props> = ({ novelId, categories, onClose }) => {
+  const [rows, setRows] = useState<Row[]>(() => categories.map(c => ({ ...c, loadedAs: c.name })));
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRow = (index: number, changes: Partial<Row>) => {
+    const next = [...rows];
+    next[index] = { ...next[index], ...changes };
+    setRows(next);
+  };
+
+  const save = async () => {
+    const cleaned = rows.map(r => ({ ...r, name: r.name.trim() })).filter(r => r.name);
+    const names = cleaned.map(r => r.name.toLowerCase());
+    if (cleaned.length === 0) {
+      setError('Keep at least one category.');
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      setError('Category names must be unique.');
+      return;
+    }
+    const removed = categories.filter(c => !cleaned.some(r => r.loadedAs === c.name));
+    if (removed.length && !confirm(`Terms in ${removed.map(c => `"${c.name}"`).join(', ')} will move to the fallback category. Continue?`)) {
+      return;
+    }
+
+    const renames: Record<string, string> = {};
+    cleaned.forEach(r => {
+      if (r.loadedAs && r.loadedAs !== r.name) renames[r.loadedAs] = r.name;
+    });
+    setIsSaving(true);
+    try {
+      await saveCategories(
+        novelId,
+        cleaned.map(c => ({ name: c.name, color: c.color, ...(c.guidance?.trim() ? { guidance: c.guidance.trim() } : {}) })),
+        renames
+      );
+      onClose();
+    } catch (e) {
+      console.error('Saving categories failed', e);
+      setError('Could not save the categories.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <Tags size={18} /> Term Categories
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 overflow-auto">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Deep Scan sorts terms into these categories. Guidance is sent to the model when extracting and translating,
+            e.g. "Translate by meaning, keep the numeric rank" for a cultivation realm.
+          </p>
+          {rows.map((row, i) => (
+            <div key={i} className="border border-slate-200 dark:border-slate-700 rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={row.name}
+                  onChange={e => updateRow(i, { name: e.target.value })}
+                  placeholder="Category name"
+                  className="flex-1 border border-slate-300 dark:border-slate-700 rounded px-2 py-1 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+                />
+                <select
+                  value={row.color}
+                  onChange={e => updateRow(i, { color: e.target.value as CategoryDefinition['color'] })}
+                  className="border border-slate-300 dark:border-slate-700 rounded px-2 py-1 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+                >
+                  {CATEGORY_COLORS.map(color => <option key={color} value={color}>{color}</option>)}
+                </select>
+                <span className={`inline-block px-2 py-1 rounded text-xs font-semibold ${categoryBadgeClass(row.name, [row])}`}>
+                  {row.name || 'Preview'}
+                </span>
+                <button onClick={() => setRows(rows.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-red-500" title="Remove">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <textarea
+                value={row.guidance || ''}
+                onChange={e => updateRow(i, { guidance: e.target.value })}
+                placeholder="Translation guidance (optional)"
+                rows={2}
+                className="w-full border border-slate-300 dark:border-slate-700 rounded px-2 py-1 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => setRows([...rows, { name: '', color: 'slate' }])}
+            className="flex items-center gap-1 text-sm text-primary hover:underline"
+          >
+            <Plus size={14} /> Add category
+          </button>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={isSaving}
+            className="px-4 py-2 bg-primary hover:bg-indigo-600 text-white rounded-lg font-medium disabled:opacity-60"
+          >
+            {isSaving ? 'Saving...' : 'Save Categories'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
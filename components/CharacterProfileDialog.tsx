@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { CHARACTER_GENDERS, SPEECH_REGISTERS, formatProfile, cleanProfile, saveProfile } from '../services/characterProfiles';
+import { CharacterGender, CharacterProfile, CharacterRelationship, SpeechRegister, Term } from '../types';
+import { X, UserRound, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+  term: Term;
+  inherited: boolean; // Term comes from a shared glossary
+  onClose: () => void;
+}
+
+export const CharacterProfileDialog: React.FC<Props> = ({ term, inherited, onClose }) => {
+  const [profile, setProfile] = useState<CharacterProfile>(term.profile || {});
+  const [isSaving, setIsSaving] = useState(false);
+  const relationships = profile.relationships || [];
+  const preview = formatProfile(cleanProfile(profile) || {});
+
+  const updateRelationship = (index: number, changes: Partial<CharacterRelationship>) => {
+    const next = [...relationships];
+    next[index] = { ...next[index], ...changes };
+    setProfile({ ...profile, relationships: next });
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await saveProfile(term.id!, profile);
+      onClose();
+    } catch (e) {
+      console.error('Saving character profile failed', e);
+      alert('Could not save the character profile.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'border border-slate-300 dark:border-slate-700 rounded px-2 py-1 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <UserRound size={18} /> {term.original}
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 overflow-auto">
+          {inherited && (
+            <p className="text-xs text-violet-600 dark:text-violet-400">
+              This character comes from a shared glossary; the profile applies to every novel using it.
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Gender</label>
+              <select
+                value={profile.gender || 'unknown'}
+                onChange={e => setProfile({ ...profile, gender: e.target.value as CharacterGender })}
+                className={`w-full ${inputClass}`}
+              >
+                {CHARACTER_GENDERS.map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Speaking Style</label>
+              <select
+                value={profile.register || ''}
+                onChange={e => setProfile({ ...profile, register: (e.target.value || undefined) as SpeechRegister | undefined })}
+                className={`w-full ${inputClass}`}
+              >
+                <option value="">Not set</option>
+                {SPEECH_REGISTERS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Addressed As</label>
+            <input
+              value={profile.addressedAs || ''}
+              onChange={e => setProfile({ ...profile, addressedAs: e.target.value })}
+              placeholder='e.g. "Young Master", "Senior Sister"'
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+
+          <div>
+            <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Relationships</label>
+            <div className="space-y-2">
+              {relationships.map((r, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input value={r.name} onChange={e => updateRelationship(i, { name: e.target.value })} placeholder="Character" className={`flex-1 min-w-0 ${inputClass}`} />
+                  <input value={r.relation} onChange={e => updateRelationship(i, { relation: e.target.value })} placeholder="Relation, e.g. master" className={`flex-1 min-w-0 ${inputClass}`} />
+                  <input value={r.address || ''} onChange={e => updateRelationship(i, { address: e.target.value })} placeholder="Calls them" className={`flex-1 min-w-0 ${inputClass}`} />
+                  <button
+                    onClick={() => setProfile({ ...profile, relationships: relationships.filter((_, j) => j !== i) })}
+                    className="p-1 text-slate-400 hover:text-red-500"
+                    title="Remove"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setProfile({ ...profile, relationships: [...relationships, { name: '', relation: '' }] })}
+              className="mt-2 flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              <Plus size={14} /> Add relationship
+            </button>
+          </div>
+
+          <div className="text-xs text-slate-500 dark:text-slate-400">
+            <span className="font-semibold uppercase tracking-wider">Sent to the model</span>
+            <p className="mt-1 font-mono bg-slate-50 dark:bg-slate-800/50 rounded p-2">
+              {preview ? `character: ${preview}` : 'Nothing yet: an empty profile is not sent.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={isSaving}
+            className="px-4 py-2 bg-primary hover:bg-indigo-600 text-white rounded-lg font-medium disabled:opacity-60"
+          >
+            {isSaving ? 'Saving...' : 'Save Profile'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
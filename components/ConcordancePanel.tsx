@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { db } from '../services/db';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { buildConcordance } from '../services/concordance';
+import { Language, ReaderFocus, Term } from '../types';
+import { X, BookOpen, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  novelId: number;
+  term: Term;
+  glossary: Term[];
+  target: Language;
+  onClose: () => void;
+  onOpenReader: (chapterId: number, focus: ReaderFocus) => void;
+}
+
+// Highlights the required rendering inside a translated sentence
+const highlight = (text: string, rendering: string): React.ReactNode => {
+  const at = rendering ? text.indexOf(rendering) : -1;
+  if (at < 0) return text;
+  return (
+    <>
+      {text.slice(0, at)}
+      <mark className="bg-emerald-100 dark:bg-emerald-900/40 text-inherit rounded px-0.5">{rendering}</mark>
+      {text.slice(at + rendering.length)}
+    </>
+  );
+};
+
+export const ConcordancePanel: React.FC<Props> = ({ novelId, term, glossary, target, onClose, onOpenReader }) => {
+  const chapters = useLiveQuery(() => db.chapters.where({ novelId }).toArray(), [novelId]);
+  const concordance = useMemo(
+    () => (chapters ? buildConcordance(term, chapters, glossary) : null),
+    [chapters, term, glossary]
+  );
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  const total = concordance?.reduce((sum, c) => sum + c.lines.length, 0) || 0;
+  const missing = concordance?.reduce((sum, c) => sum + c.lines.filter(l => l.translated !== undefined && !l.rendered).length, 0) || 0;
+
+  const toggle = (chapterId: number) => {
+    const next = new Set(collapsed);
+    if (next.has(chapterId)) next.delete(chapterId);
+    else next.add(chapterId);
+    setCollapsed(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+              <BookOpen size={18} /> {term.original}
+              <span className={`${target.fontClass} font-normal text-emerald-700 dark:text-emerald-400`} dir={target.dir}>{term.translation}</span>
+            </h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+              {concordance
+                ? `${total} occurrence(s) in ${concordance.length} chapter(s)${missing ? ` • ${missing} not rendered as required` : ''}`
+                : 'Searching chapters...'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-auto divide-y divide-slate-100 dark:divide-slate-800">
+          {concordance?.map(chapter => (
+            <div key={chapter.chapterId}>
+              <button
+                onClick={() => toggle(chapter.chapterId)}
+                className="w-full flex items-center gap-2 px-6 py-2 bg-slate-50 dark:bg-slate-800/50 text-sm text-left hover:bg-slate-100 dark:hover:bg-slate-800"
+              >
+                {collapsed.has(chapter.chapterId) ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                <span className="font-medium text-slate-700 dark:text-slate-200">Ch. {chapter.order}: {chapter.title}</span>
+                <span className="ml-auto text-xs text-slate-400">{chapter.lines.length}×</span>
+              </button>
+              {!collapsed.has(chapter.chapterId) && chapter.lines.map((line, i) => (
+                <button
+                  key={i}
+                  onClick={() => onOpenReader(chapter.chapterId, { start: line.start, end: line.end, paragraph: line.paragraph })}
+                  className="w-full grid grid-cols-2 gap-4 px-6 py-2 text-sm text-left hover:bg-indigo-50/50 dark:hover:bg-indigo-900/10"
+                  title="Open in reader"
+                >
+                  <span className="text-slate-600 dark:text-slate-400">
+                    …{line.before}
+                    <mark className="bg-amber-100 dark:bg-amber-900/40 text-slate-900 dark:text-slate-100 rounded px-0.5">{line.match}</mark>
+                    {line.after}…
+                  </span>
+                  <span className={`${target.fontClass} text-slate-700 dark:text-slate-300 flex items-start gap-2`} dir={target.dir}>
+                    {line.translated === undefined ? (
+                      <span className="text-slate-400 text-xs" dir="ltr">Not translated</span>
+                    ) : (
+                      <>
+                        <span className="line-clamp-3">{highlight(line.translated, line.expected)}</span>
+                        {!line.rendered && (
+                          <span title={`Expected ${line.expected}`}><AlertTriangle size={14} className="text-amber-500 shrink-0 mt-1" /></span>
+                        )}
+                      </>
+                    )}
+                  </span>
+                </button>
+              ))}
+            </div>
+          ))}
+          {concordance?.length === 0 && (
+            <p className="p-8 text-center text-slate-400">This term does not occur in any chapter.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { db } from '../services/db';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getCategories } from '../services/categories';
+import { getLanguages } from '../services/languages';
+import {
+  ColumnMapping, GLOSSARY_FIELDS, GlossaryField, ImportResult, MergeStrategy, ParsedTable,
+  formatForFile, guessMapping, importTerms, looksLikeHeader, parseGlossaryFile, rowsToTerms
+} from '../services/glossaryIO';
+import { X, FileText, Upload, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface Props {
+  novelId: number;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 20;
+
+const FIELD_LABELS: Record<GlossaryField, string> = {
+  original: 'Original *',
+  translation: 'Translation *',
+  category: 'Category',
+  locked: 'Locked',
+  notes: 'Notes',
+  aliases: 'Aliases',
+  profile: 'Character profile',
+};
+
+const STRATEGIES: { id: MergeStrategy; label: string; hint: string }[] = [
+  { id: 'skip', label: 'Skip', hint: 'Keep existing terms as they are' },
+  { id: 'overwrite-unlocked', label: 'Overwrite unlocked', hint: 'Replace existing terms unless they are locked' },
+  { id: 'keep-both', label: 'Keep both', hint: 'Add imported terms as duplicates' },
+];
+
+export const GlossaryImportDialog: React.FC<Props> = ({ novelId, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ParsedTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [firstRowIsData, setFirstRowIsData] = useState(false);
+  const [strategy, setStrategy] = useState<MergeStrategy>('skip');
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const novel = useLiveQuery(() => db.novels.get(novelId), [novelId]);
+  const categories = getCategories(novel);
+  const target = getLanguages(novel).target;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    setResult(null);
+    try {
+      const format = formatForFile(file.name);
+      const parsed = parseGlossaryFile(await file.text(), format);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers));
+      setFirstRowIsData(format !== 'json' && !looksLikeHeader(parsed.headers));
+    } catch (err) {
+      console.error('Glossary parse failed', err);
+      setTable(null);
+      setError('Could not read this file. Use CSV, TSV or a JSON array of objects.');
+    }
+  };
+
+  // The table actually imported, with the header row folded back in if it is data
+  const effective = useMemo<ParsedTable | null>(() => {
+    if (!table) return null;
+    if (!firstRowIsData) return table;
+    return { headers: table.headers.map((_, i) => `Column ${i + 1}`), rows: [table.headers, ...table.rows] };
+  }, [table, firstRowIsData]);
+
+  const terms = useMemo(
+    () => (effective && mapping ? rowsToTerms(effective, mapping, novelId, categories) : []),
+    [effective, mapping, novelId, categories]
+  );
+
+  const runImport = async () => {
+    if (terms.length === 0) return;
+    setIsImporting(true);
+    try {
+      setResult(await importTerms(novelId, terms, strategy));
+    } catch (err) {
+      console.error('Glossary import failed', err);
+      setError('Import failed.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <Upload size={18} /> Import Glossary
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 overflow-auto">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300"
+            >
+              <FileText size={16} /> Choose file
+            </button>
+            <input type="file" accept=".csv,.tsv,.tab,.txt,.json" ref={fileInputRef} className="hidden" onChange={handleFile} />
+            <span className="text-sm text-slate-500 dark:text-slate-400 truncate">{fileName || 'CSV, TSV or JSON'}</span>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" /> {error}
+            </div>
+          )}
+
+          {effective && mapping && (
+            <>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Column Mapping</label>
+                  <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                    <input type="checkbox" checked={firstRowIsData} onChange={e => setFirstRowIsData(e.target.checked)} />
+                    First row is data, not headers
+                  </label>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {GLOSSARY_FIELDS.map(field => (
+                    <div key={field}>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">{FIELD_LABELS[field]}</span>
+                      <select
+                        value={mapping[field]}
+                        onChange={e => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                        className="w-full border border-slate-300 dark:border-slate-700 rounded-lg px-2 py-1.5 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+                      >
+                        <option value={-1}>(none)</option>
+                        {effective.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">
+                  Preview ({terms.length} terms{terms.length > PREVIEW_LIMIT ? `, first ${PREVIEW_LIMIT} shown` : ''})
+                </label>
+                <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-auto max-h-64">
+                  <table className="w-full text-sm text-left">
+                    <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400">
+                      <tr>
+                        <th className="px-3 py-2">Original</th>
+                        <th className="px-3 py-2">Category</th>
+                        <th className="px-3 py-2">Locked</th>
+                        <th className="px-3 py-2">Aliases</th>
+                        <th className="px-3 py-2 text-right">Translation</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800 text-slate-700 dark:text-slate-300">
+                      {terms.slice(0, PREVIEW_LIMIT).map((t, i) => (
+                        <tr key={i}>
+                          <td className="px-3 py-1.5">{t.original}</td>
+                          <td className="px-3 py-1.5">{t.category}</td>
+                          <td className="px-3 py-1.5">{t.isLocked ? 'Yes' : ''}</td>
+                          <td className="px-3 py-1.5 text-xs">{t.aliases?.map(a => a.source).join(', ')}</td>
+                          <td className={`px-3 py-1.5 text-right ${target.fontClass}`} dir={target.dir}>{t.translation}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {terms.length === 0 && (
+                    <p className="p-4 text-center text-slate-400 text-sm">No rows with both an original and a translation.</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">When a term already exists</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {STRATEGIES.map(s => (
+                    <label
+                      key={s.id}
+                      className={`p-2 rounded-lg border cursor-pointer text-sm
+                        ${strategy === s.id ? 'border-primary bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'}
+                      `}
+                    >
+                      <input type="radio" name="strategy" className="mr-2" checked={strategy === s.id} onChange={() => setStrategy(s.id)} />
+                      <span className="font-medium text-slate-800 dark:text-slate-200">{s.label}</span>
+                      <span className="block text-xs text-slate-500 dark:text-slate-400 mt-0.5">{s.hint}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {result && (
+            <div className="flex items-start gap-2 text-sm text-emerald-600 dark:text-emerald-400">
+              <CheckCircle size={16} className="mt-0.5 shrink-0" />
+              Added {result.added}, updated {result.updated}, skipped {result.skipped}.
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700">
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          <button
+            onClick={runImport}
+            disabled={isImporting || terms.length === 0 || !!result}
+            className="px-4 py-2 bg-primary hover:bg-indigo-600 text-white rounded-lg font-medium disabled:opacity-60"
+          >
+            {isImporting ? 'Importing...' : `Import ${terms.length} Terms`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
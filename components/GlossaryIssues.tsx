@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { db } from '../services/db';
+import { analyzeGlossary, dismissIssue, GlossaryIssue, GlossaryIssueKind, mergeTerms } from '../services/glossaryAnalysis';
+import { Language, Term } from '../types';
+import { isInherited } from '../services/sharedGlossaries';
+import { Lock, GitMerge, EyeOff, Trash2 } from 'lucide-react';
+
+interface Props {
+  novelId: number;
+  terms: Term[];
+  dismissed: string[];
+  target: Language;
+  filter: string;
+}
+
+const KIND_LABELS: Record<GlossaryIssueKind, string> = {
+  'duplicate': 'Duplicate',
+  'shared-translation': 'Same translation',
+  'overlap': 'Overlap',
+};
+
+const KIND_HINTS: Record<GlossaryIssueKind, string> = {
+  'duplicate': 'These entries share an original or alias, so only one of them can be applied.',
+  'shared-translation': 'Different originals render identically. If they are the same entity, merge them as aliases.',
+  'overlap': 'The shorter term appears inside the longer one. The longer match wins while translating; make sure their renderings agree.',
+};
+
+export const GlossaryIssues: React.FC<Props> = ({ novelId, terms, dismissed, target, filter }) => {
+  const issues = useMemo(() => analyzeGlossary(terms, dismissed), [terms, dismissed]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const visible = issues.filter(issue =>
+    !filter || issue.terms.some(t => t.original.toLowerCase().includes(filter.toLowerCase()) || t.translation.includes(filter))
+  );
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (e) {
+      console.error('Glossary issue action failed', e);
+      alert('Could not update the glossary.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Removing a shared term affects every novel that inherits it
+  const confirmRemoval = (removed: Term[]) =>
+    (!removed.some(t => t.isLocked) || confirm('This deletes locked terms. Continue?')) &&
+    (!removed.some(t => isInherited(t, novelId)) || confirm('This deletes terms from a shared glossary used by other novels. Continue?'));
+
+  // Keeps one entry of a duplicate group and deletes the rest
+  const keepOnly = (issue: GlossaryIssue, keep: Term) => {
+    const others = issue.terms.filter(t => t.id !== keep.id);
+    if (!confirmRemoval(others)) return;
+    run(() => db.glossary.bulkDelete(others.map(t => t.id!)));
+  };
+
+  const mergeInto = (issue: GlossaryIssue, keep: Term) => {
+    const others = issue.terms.filter(t => t.id !== keep.id);
+    if (!confirmRemoval(others)) return;
+    run(() => mergeTerms(keep.id!, others.map(t => t.id!)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {visible.map(issue => (
+        <div key={issue.id} className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 p-4">
+          <div className="flex items-start justify-between gap-4 mb-3">
+            <div>
+              <span className={`text-xs font-semibold uppercase tracking-wider px-2 py-0.5 rounded
+                ${issue.conflicting ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400' : 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400'}
+              `}>
+                {issue.conflicting ? 'Conflict' : KIND_LABELS[issue.kind]}
+              </span>
+              <span className="ml-2 text-sm text-slate-700 dark:text-slate-300 font-medium">"{issue.detail}"</span>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{KIND_HINTS[issue.kind]}</p>
+            </div>
+            <button
+              onClick={() => run(() => dismissIssue(novelId, issue.id))}
+              disabled={isWorking}
+              className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 shrink-0 disabled:opacity-50"
+              title="Mark as intended"
+            >
+              <EyeOff size={14} /> Dismiss
+            </button>
+          </div>
+
+          <div className="divide-y divide-slate-100 dark:divide-slate-800 border border-slate-100 dark:border-slate-800 rounded-lg">
+            {issue.terms.map(term => (
+              <div key={term.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <span className="font-medium text-slate-800 dark:text-slate-200">{term.original}</span>
+                {term.isLocked && <Lock size={12} className="text-amber-500" />}
+                <span className="text-xs text-slate-400">{term.category}</span>
+                {term.aliases && term.aliases.length > 0 && (
+                  <span className="text-xs text-slate-400 truncate">aka {term.aliases.map(a => a.source).join(', ')}</span>
+                )}
+                <span className={`ml-auto ${target.fontClass} text-emerald-700 dark:text-emerald-400`} dir={target.dir}>{term.translation}</span>
+                {issue.kind !== 'overlap' && (
+                  <div className="flex gap-1 shrink-0">
+                    <button
+                      onClick={() => mergeInto(issue, term)}
+                      disabled={isWorking}
+                      className="flex items-center gap-1 px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 rounded text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+                      title="Keep this entry and fold the others in as aliases"
+                    >
+                      <GitMerge size={12} /> Merge here
+                    </button>
+                    {issue.kind === 'duplicate' && (
+                      <button
+                        onClick={() => keepOnly(issue, term)}
+                        disabled={isWorking}
+                        className="flex items-center gap-1 px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 rounded text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+                        title="Keep this entry and delete the others"
+                      >
+                        <Trash2 size={12} /> Keep only this
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {issue.kind === 'overlap' && (
+            <div className="flex justify-end mt-3">
+              <button
+                onClick={() => mergeInto(issue, issue.terms[1])}
+                disabled={isWorking}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs border border-slate-300 dark:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+                title="Make the shorter term an alias of the longer one"
+              >
+                <GitMerge size={12} /> Merge into "{issue.terms[1].original}"
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {visible.length === 0 && (
+        <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 p-8 text-center text-slate-400">
+          No duplicates, conflicts or overlaps found.
+        </div>
+      )}
+    </div>
+  );
+};
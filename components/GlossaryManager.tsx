@@ -1,16 +1,65 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { db } from '../services/db';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { ArrowLeft, Plus, Save, Trash2, Lock, Unlock, Search } from 'lucide-react';
-import { Term, TermCategory } from '../types';
+import { ArrowLeft, Plus, Save, Trash2, Lock, Unlock, Search, X, Upload, Download, Layers, Copy, Share2, Tags, BookOpen, UserRound } from 'lucide-react';
+import { ReaderFocus, Term, TermAlias } from '../types';
+import { surfaceKeys } from '../services/termMatcher';
+import { ProposalReview } from './ProposalReview';
+import { GlossaryImportDialog } from './GlossaryImportDialog';
+import { GlossaryIssues } from './GlossaryIssues';
+import { SharedGlossariesDialog } from './SharedGlossariesDialog';
+import { CategoryEditor } from './CategoryEditor';
+import { ConcordancePanel } from './ConcordancePanel';
+import { CharacterProfileDialog } from './CharacterProfileDialog';
+import { StaleTranslations } from './StaleTranslations';
+import { findTermChanges } from '../services/staleTranslations';
+import { categoryBadgeClass, categoryOptions, fallbackCategory, getCategories } from '../services/categories';
+import { getLanguages } from '../services/languages';
+import { formatProfile, isCharacterTerm } from '../services/characterProfiles';
+import { analyzeGlossary, findExistingTerm } from '../services/glossaryAnalysis';
+import { exportGlossary, GlossaryFormat } from '../services/glossaryIO';
+import { downloadBlob, safeFileName } from '../services/fileUtils';
+import { getEffectiveGlossary, isInherited, moveTermsToShared, overrideForNovel } from '../services/sharedGlossaries';
 
 interface Props {
   novelId: number;
   onBack: () => void;
+  onOpenReader: (chapterId: number, focus?: ReaderFocus) => void;
 }
 
-export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
-  const terms = useLiveQuery(() => db.glossary.where({ novelId }).toArray(), [novelId]);
+export const GlossaryManager: React.FC<Props> = ({ novelId, onBack, onOpenReader }) => {
+  // Includes terms inherited from attached shared glossaries
+  const terms = useLiveQuery(() => getEffectiveGlossary(novelId), [novelId]);
+  const proposalCount = useLiveQuery(() => db.scanCandidates.where({ novelId, status: 'proposed' }).count(), [novelId]);
+  const [tab, setTab] = useState<'glossary' | 'review' | 'issues' | 'outdated'>('glossary');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isSharedOpen, setIsSharedOpen] = useState(false);
+  const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
+  const [concordanceTerm, setConcordanceTerm] = useState<Term | null>(null);
+  const [profileTerm, setProfileTerm] = useState<Term | null>(null);
+  const novel = useLiveQuery(() => db.novels.get(novelId), [novelId]);
+  const categories = getCategories(novel);
+  const target = getLanguages(novel).target;
+  const sharedGlossaries = useLiveQuery(() => db.sharedGlossaries.toArray(), []);
+  const sharedNames = new Map((sharedGlossaries || []).map(g => [g.id!, g.name]));
+  const attachedIds = novel?.sharedGlossaryIds || [];
+  const chapters = useLiveQuery(() => db.chapters.where({ novelId }).toArray(), [novelId]);
+  const termChanges = useMemo(
+    () => (terms && chapters ? findTermChanges(chapters, terms) : []),
+    [terms, chapters]
+  );
+  const outdatedCount = new Set(termChanges.flatMap(c => c.chapters.map(ch => ch.id))).size;
+  const issueCount = useMemo(
+    () => (terms ? analyzeGlossary(terms, novel?.dismissedGlossaryIssues).length : 0),
+    [terms, novel?.dismissedGlossaryIssues]
+  );
+
+  const exportAs = (format: GlossaryFormat) => {
+    if (!terms) return;
+    downloadBlob(exportGlossary(terms, format), `${safeFileName(novel?.title || 'novel')}_glossary.${format}`);
+    setIsExportOpen(false);
+  };
   const [filter, setFilter] = useState('');
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editForm, setEditForm] = useState<Partial<Term>>({});
@@ -22,44 +71,87 @@ export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
 
   const saveEdit = async () => {
     if (editingId && editForm) {
-      await db.glossary.update(editingId, editForm);
+      // Renaming onto another entry's original or alias would shadow one of them
+      const clash = findExistingTerm((terms || []).filter(t => t.id !== editingId), editForm.original || '');
+      if (clash && !confirm(`"${editForm.original}" is already in the glossary as ${clash.term.original} → ${clash.term.translation}. Save anyway?`)) {
+        return;
+      }
+      await db.glossary.update(editingId, {
+        ...editForm,
+        aliases: (editForm.aliases || [])
+          .filter(a => a.source.trim())
+          .map(a => ({ source: a.source.trim(), ...(a.translation?.trim() ? { translation: a.translation.trim() } : {}) }))
+      });
       setEditingId(null);
       setEditForm({});
     }
   };
 
-  const deleteTerm = async (id: number) => {
-    if (confirm('Delete this term?')) {
-      await db.glossary.delete(id);
+  const deleteTerm = async (term: Term) => {
+    const message = isInherited(term, novelId)
+      ? 'Delete this term from the shared glossary? Every novel using it loses the term.'
+      : 'Delete this term?';
+    if (confirm(message)) {
+      await db.glossary.delete(term.id!);
     }
   };
 
+  // Copies an inherited term into this novel and opens it for editing
+  const overrideTerm = async (term: Term) => {
+    const id = await overrideForNovel(term, novelId);
+    setEditingId(id);
+    setEditForm({ ...term, id, novelId, sharedGlossaryId: undefined });
+  };
+
+  const shareTerm = async (term: Term) => {
+    let target = attachedIds[0];
+    if (attachedIds.length > 1) {
+      const choice = prompt(
+        `Move "${term.original}" to which shared glossary?\n` + attachedIds.map((id, i) => `${i + 1}. ${sharedNames.get(id)}`).join('\n'),
+        '1'
+      );
+      target = attachedIds[Number(choice) - 1];
+    } else if (!confirm(`Move "${term.original}" to "${sharedNames.get(target)}"? Every novel using it will inherit the term.`)) {
+      return;
+    }
+    if (target) await moveTermsToShared([term.id!], target);
+  };
+
   const toggleLock = async (term: Term) => {
     await db.glossary.update(term.id!, { isLocked: !term.isLocked });
   };
 
   const addEmptyTerm = async () => {
+    const category = fallbackCategory(categories);
     const id = await db.glossary.add({
       novelId,
       original: 'New Term',
       translation: 'Translation',
-      category: TermCategory.OTHER,
+      category,
       isLocked: false
     });
     setEditingId(id as number);
     setEditForm({ 
       original: 'New Term', 
       translation: 'Translation', 
-      category: TermCategory.OTHER,
+      category,
       isLocked: false 
     });
   };
 
+  // Aliases are searchable too, so "Young Master Lin" finds "Lin Feng"
   const filteredTerms = terms?.filter(t => 
-    t.original.toLowerCase().includes(filter.toLowerCase()) || 
-    t.translation.includes(filter)
+    surfaceKeys(t).some(k => k.includes(filter.toLowerCase())) || 
+    t.translation.includes(filter) ||
+    (t.aliases || []).some(a => a.translation?.includes(filter))
   );
 
+  const updateAlias = (index: number, changes: Partial<TermAlias>) => {
+    const aliases = [...(editForm.aliases || [])];
+    aliases[index] = { ...aliases[index], ...changes };
+    setEditForm({ ...editForm, aliases });
+  };
+
   return (
     <div className="h-full flex flex-col bg-slate-50 dark:bg-slate-950 transition-colors">
       <div className="bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-800 px-8 py-6 sticky top-0 z-10 shadow-sm">
@@ -70,14 +162,68 @@ export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
             </button>
             <h1 className="text-2xl font-bold text-slate-800 dark:text-slate-100">Glossary Manager</h1>
           </div>
-          <button 
-            onClick={addEmptyTerm}
-            className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2"
-          >
-            <Plus size={18} /> Add Term
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setIsCategoriesOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300"
+            >
+              <Tags size={18} /> Categories
+            </button>
+            <button
+              onClick={() => setIsSharedOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300"
+            >
+              <Layers size={18} /> Shared ({attachedIds.length})
+            </button>
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300"
+            >
+              <Upload size={18} /> Import
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setIsExportOpen(!isExportOpen)}
+                disabled={!terms?.length}
+                className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300 disabled:opacity-50"
+              >
+                <Download size={18} /> Export
+              </button>
+              {isExportOpen && (
+                <div className="absolute top-full right-0 mt-2 w-40 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-2 z-20">
+                  {(['csv', 'tsv', 'json'] as const).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => exportAs(format)}
+                      className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+                    >
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <button 
+              onClick={addEmptyTerm}
+              className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2"
+            >
+              <Plus size={18} /> Add Term
+            </button>
+          </div>
         </div>
         
+        <div className="flex gap-1 mb-4">
+          {(['glossary', 'review', 'issues', 'outdated'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${tab === t ? 'bg-indigo-50 dark:bg-indigo-900/30 text-primary' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+            >
+              {t === 'glossary' ? `Glossary (${terms?.length || 0})` : t === 'review' ? `Review (${proposalCount || 0})` : t === 'issues' ? `Issues (${issueCount})` : `Outdated (${outdatedCount})`}
+            </button>
+          ))}
+        </div>
+
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
           <input 
@@ -90,14 +236,56 @@ export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
         </div>
       </div>
 
+      {isImportOpen && <GlossaryImportDialog novelId={novelId} onClose={() => setIsImportOpen(false)} />}
+      {isSharedOpen && <SharedGlossariesDialog novelId={novelId} onClose={() => setIsSharedOpen(false)} />}
+      {isCategoriesOpen && <CategoryEditor novelId={novelId} categories={categories} onClose={() => setIsCategoriesOpen(false)} />}
+      {profileTerm && (
+        <CharacterProfileDialog
+          term={profileTerm}
+          inherited={isInherited(profileTerm, novelId)}
+          onClose={() => setProfileTerm(null)}
+        />
+      )}
+      {concordanceTerm && terms && (
+        <ConcordancePanel
+          novelId={novelId}
+          term={concordanceTerm}
+          glossary={terms}
+          target={target}
+          onClose={() => setConcordanceTerm(null)}
+          onOpenReader={onOpenReader}
+        />
+      )}
+
       <div className="flex-1 overflow-auto p-8">
+        {tab === 'review' ? (
+          <ProposalReview novelId={novelId} filter={filter} />
+        ) : tab === 'outdated' ? (
+          <StaleTranslations
+            novelId={novelId}
+            chapters={chapters || []}
+            glossary={terms || []}
+            changes={termChanges}
+            target={target}
+            filter={filter}
+            onOpenReader={onOpenReader}
+          />
+        ) : tab === 'issues' ? (
+          <GlossaryIssues
+            novelId={novelId}
+            terms={terms || []}
+            dismissed={novel?.dismissedGlossaryIssues || []}
+            target={target}
+            filter={filter}
+          />
+        ) : (
         <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
           <table className="w-full text-left">
             <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400 font-semibold border-b border-slate-200 dark:border-slate-700">
               <tr>
                 <th className="px-6 py-4">Original Term</th>
                 <th className="px-6 py-4">Category</th>
-                <th className="px-6 py-4 text-right">Arabic Translation</th>
+                <th className="px-6 py-4 text-right">{target.name} Translation</th>
                 <th className="px-6 py-4 text-center">Actions</th>
               </tr>
             </thead>
@@ -108,13 +296,77 @@ export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
                   {/* --- Original --- */}
                   <td className="px-6 py-4 text-slate-800 dark:text-slate-200">
                     {editingId === term.id ? (
-                      <input 
-                        className="w-full border border-primary rounded px-2 py-1 bg-white dark:bg-slate-700"
-                        value={editForm.original}
-                        onChange={e => setEditForm({...editForm, original: e.target.value})}
-                      />
+                      <>
+                        <input 
+                          className="w-full border border-primary rounded px-2 py-1 bg-white dark:bg-slate-700"
+                          value={editForm.original}
+                          onChange={e => setEditForm({...editForm, original: e.target.value})}
+                        />
+                        {/* Aliases: other source forms, optionally with their own translation */}
+                        <div className="mt-2 space-y-1">
+                          {(editForm.aliases || []).map((alias, i) => (
+                            <div key={i} className="flex items-center gap-1">
+                              <input
+                                className="flex-1 min-w-0 border border-slate-300 dark:border-slate-600 rounded px-2 py-0.5 text-sm bg-white dark:bg-slate-700"
+                                placeholder="Alias"
+                                value={alias.source}
+                                onChange={e => updateAlias(i, { source: e.target.value })}
+                              />
+                              <input
+                                dir={target.dir}
+                                className={`flex-1 min-w-0 border border-slate-300 dark:border-slate-600 rounded px-2 py-0.5 text-sm ${target.fontClass} bg-white dark:bg-slate-700`}
+                                placeholder="Own translation (optional)"
+                                value={alias.translation || ''}
+                                onChange={e => updateAlias(i, { translation: e.target.value })}
+                              />
+                              <button
+                                onClick={() => setEditForm({ ...editForm, aliases: (editForm.aliases || []).filter((_, j) => j !== i) })}
+                                className="text-slate-400 hover:text-red-500 p-0.5"
+                              >
+                                <X size={14} />
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            onClick={() => setEditForm({ ...editForm, aliases: [...(editForm.aliases || []), { source: '' }] })}
+                            className="text-xs text-primary hover:underline"
+                          >
+                            + Add alias
+                          </button>
+                        </div>
+                      </>
                     ) : (
-                      <span className="font-medium">{term.original}</span>
+                      <>
+                        <span className="font-medium">{term.original}</span>
+                        {isInherited(term, novelId) && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-violet-100 dark:bg-violet-900/30 text-xs text-violet-700 dark:text-violet-300" title="Inherited; edits apply to every novel using this shared glossary">
+                            {sharedNames.get(term.sharedGlossaryId!) || 'Shared'}
+                          </span>
+                        )}
+                        {term.aliases && term.aliases.length > 0 && (
+                          <span className="flex flex-wrap gap-1 mt-1">
+                            {term.aliases.map((alias, i) => (
+                              <span
+                                key={i}
+                                className="px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-xs text-slate-500 dark:text-slate-400"
+                                title={alias.translation ? `Translated as ${alias.translation}` : 'Uses the term translation'}
+                              >
+                                {alias.source}{alias.translation && <span className={target.fontClass} dir={target.dir}> → {alias.translation}</span>}
+                              </span>
+                            ))}
+                          </span>
+                        )}
+                        {term.profile && (
+                          <span className="block text-xs text-sky-600 dark:text-sky-400 line-clamp-1" title={formatProfile(term.profile)}>
+                            {formatProfile(term.profile)}
+                          </span>
+                        )}
+                        {term.occurrences !== undefined && (
+                          <span className="block text-xs text-slate-400" title="Found by the last Deep Scan">
+                            {term.occurrences}× {term.firstSeenOrder !== undefined && `• first in ch. ${term.firstSeenOrder}`}
+                          </span>
+                        )}
+                      </>
                     )}
                   </td>
 
@@ -124,17 +376,12 @@ export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
                       <select 
                         className="w-full border border-primary rounded px-2 py-1 bg-white dark:bg-slate-700 dark:text-white"
                         value={editForm.category}
-                        onChange={e => setEditForm({...editForm, category: e.target.value as TermCategory})}
+                        onChange={e => setEditForm({...editForm, category: e.target.value})}
                       >
-                        {Object.values(TermCategory).map(c => <option key={c} value={c}>{c}</option>)}
+                        {categoryOptions(categories, term.category).map(c => <option key={c} value={c}>{c}</option>)}
                       </select>
                     ) : (
-                      <span className={`inline-block px-2 py-1 rounded text-xs font-semibold
-                        ${term.category === TermCategory.PERSON ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200' : 
-                          term.category === TermCategory.SKILL ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-200' :
-                          term.category === TermCategory.LOCATION ? 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-200' :
-                          'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'}
-                      `}>
+                      <span className={`inline-block px-2 py-1 rounded text-xs font-semibold ${categoryBadgeClass(term.category, categories)}`}>
                         {term.category}
                       </span>
                     )}
@@ -143,14 +390,25 @@ export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
                   {/* --- Translation --- */}
                   <td className="px-6 py-4 text-right">
                     {editingId === term.id ? (
-                      <input 
-                        dir="rtl"
-                        className="w-full border border-primary rounded px-2 py-1 font-arabic bg-white dark:bg-slate-700 dark:text-white"
-                        value={editForm.translation}
-                        onChange={e => setEditForm({...editForm, translation: e.target.value})}
-                      />
+                      <>
+                        <input 
+                          dir={target.dir}
+                          className={`w-full border border-primary rounded px-2 py-1 ${target.fontClass} bg-white dark:bg-slate-700 dark:text-white`}
+                          value={editForm.translation}
+                          onChange={e => setEditForm({...editForm, translation: e.target.value})}
+                        />
+                        <input
+                          className="w-full mt-2 border border-slate-300 dark:border-slate-600 rounded px-2 py-0.5 text-sm bg-white dark:bg-slate-700 dark:text-white"
+                          placeholder="Notes"
+                          value={editForm.notes || ''}
+                          onChange={e => setEditForm({...editForm, notes: e.target.value})}
+                        />
+                      </>
                     ) : (
-                      <span className="font-arabic text-lg text-emerald-700 dark:text-emerald-400">{term.translation}</span>
+                      <>
+                        <span className={`${target.fontClass} text-lg text-emerald-700 dark:text-emerald-400`} dir={target.dir}>{term.translation}</span>
+                        {term.notes && <span className="block text-xs text-slate-400 mt-0.5">{term.notes}</span>}
+                      </>
                     )}
                   </td>
 
@@ -166,6 +424,27 @@ export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
                           <button onClick={() => startEdit(term)} className="text-slate-400 hover:text-primary hover:bg-slate-100 dark:hover:bg-slate-700 p-1 rounded">
                              Edit
                           </button>
+                          {isCharacterTerm(term) && (
+                            <button
+                              onClick={() => setProfileTerm(term)}
+                              className={`p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 ${term.profile ? 'text-sky-600 dark:text-sky-400' : 'text-slate-400 hover:text-primary'}`}
+                              title="Character profile"
+                            >
+                              <UserRound size={16} />
+                            </button>
+                          )}
+                          <button onClick={() => setConcordanceTerm(term)} className="text-slate-400 hover:text-primary hover:bg-slate-100 dark:hover:bg-slate-700 p-1 rounded" title="Show every occurrence">
+                            <BookOpen size={16} />
+                          </button>
+                          {isInherited(term, novelId) ? (
+                            <button onClick={() => overrideTerm(term)} className="text-slate-400 hover:text-primary hover:bg-slate-100 dark:hover:bg-slate-700 p-1 rounded" title="Override for this novel only">
+                              <Copy size={16} />
+                            </button>
+                          ) : attachedIds.length > 0 && (
+                            <button onClick={() => shareTerm(term)} className="text-slate-400 hover:text-primary hover:bg-slate-100 dark:hover:bg-slate-700 p-1 rounded" title="Move to a shared glossary">
+                              <Share2 size={16} />
+                            </button>
+                          )}
                           <button 
                             onClick={() => toggleLock(term)} 
                             className={`p-1 rounded ${term.isLocked ? 'text-amber-500 bg-amber-50 dark:bg-amber-900/20' : 'text-slate-300 hover:text-slate-500'}`}
@@ -173,7 +452,7 @@ export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
                           >
                              {term.isLocked ? <Lock size={16} /> : <Unlock size={16} />}
                           </button>
-                          <button onClick={() => deleteTerm(term.id!)} className="text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 p-1 rounded">
+                          <button onClick={() => deleteTerm(term)} className="text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 p-1 rounded">
                             <Trash2 size={16} />
                           </button>
                         </>
@@ -190,6 +469,7 @@ export const GlossaryManager: React.FC<Props> = ({ novelId, onBack }) => {
             </div>
           )}
         </div>
+        )}
       </div>
     </div>
   );
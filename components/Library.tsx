@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
-import { db } from '../services/db';
+import React, { useRef, useState } from 'react';
+import { db, createNovelFromBook } from '../services/db';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { Book, Plus, Trash2 } from 'lucide-react';
+import { Book, Plus, Trash2, Upload } from 'lucide-react';
+import { parseBookFile } from '../services/bookImport';
 
 interface Props {
   onSelectNovel: (id: number) => void;
@@ -11,6 +12,8 @@ export const Library: React.FC<Props> = ({ onSelectNovel }) => {
   const novels = useLiveQuery(() => db.novels.toArray());
   const [isAdding, setIsAdding] = useState(false);
   const [newTitle, setNewTitle] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const handleAdd = async () => {
     if (!newTitle) return;
@@ -22,12 +25,38 @@ export const Library: React.FC<Props> = ({ onSelectNovel }) => {
     setIsAdding(false);
   };
 
+  // Create a novel straight from an EPUB / HTML book (title, author, cover, chapters)
+  const handleImportBook = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const book = await parseBookFile(file);
+      if (book.chapters.length === 0) {
+        alert(`No chapters found in ${file.name}.`);
+        return;
+      }
+      const id = await createNovelFromBook(book, file.name.replace(/\.[^/.]+$/, ''));
+      onSelectNovel(id);
+    } catch (err) {
+      console.error('Book import failed', err);
+      alert('Import failed. The file may be corrupt or DRM-protected.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleDelete = async (e: React.MouseEvent, id: number) => {
     e.stopPropagation();
     if(confirm('Delete this novel and all chapters?')) {
-        await (db as any).transaction('rw', db.novels, db.chapters, db.glossary, async () => {
+        await (db as any).transaction('rw', [db.novels, db.chapters, db.glossary, db.jobs, db.revisions, db.scanCandidates, db.promptVersions], async () => {
             await db.chapters.where({ novelId: id }).delete();
             await db.glossary.where({ novelId: id }).delete();
+            await db.jobs.where({ novelId: id }).delete();
+            await db.revisions.where({ novelId: id }).delete();
+            await db.scanCandidates.where({ novelId: id }).delete();
+            await db.promptVersions.where({ novelId: id }).delete();
             await db.novels.delete(id);
         });
     }
@@ -37,12 +66,22 @@ export const Library: React.FC<Props> = ({ onSelectNovel }) => {
     <div className="p-8 max-w-7xl mx-auto min-h-screen">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100">My Library</h1>
-        <button
-          onClick={() => setIsAdding(true)}
-          className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
-        >
-          <Plus size={20} /> Add Novel
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300 transition-colors"
+          >
+            <Upload size={20} /> {isImporting ? 'Importing...' : 'Import Book'}
+            <input type="file" accept=".epub,.html,.htm,.xhtml" ref={importInputRef} className="hidden" onChange={handleImportBook} />
+          </button>
+          <button
+            onClick={() => setIsAdding(true)}
+            className="bg-primary hover:bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
+          >
+            <Plus size={20} /> Add Novel
+          </button>
+        </div>
       </div>
 
       {isAdding && (
@@ -79,13 +118,20 @@ export const Library: React.FC<Props> = ({ onSelectNovel }) => {
             onClick={() => novel.id && onSelectNovel(novel.id)}
             className="group bg-white dark:bg-slate-900 rounded-xl shadow-sm hover:shadow-xl border border-slate-200 dark:border-slate-800 cursor-pointer transition-all duration-300 overflow-hidden"
           >
-            <div className="h-32 bg-gradient-to-r from-primary to-indigo-400 flex items-center justify-center">
-              <Book size={48} className="text-white opacity-80" />
+            <div className="h-32 bg-gradient-to-r from-primary to-indigo-400 flex items-center justify-center overflow-hidden">
+              {novel.coverUrl ? (
+                <img src={novel.coverUrl} alt={novel.title} className="h-full w-full object-cover" />
+              ) : (
+                <Book size={48} className="text-white opacity-80" />
+              )}
             </div>
             <div className="p-6">
               <h3 className="text-xl font-bold text-slate-800 dark:text-slate-200 mb-2 group-hover:text-primary transition-colors">
                 {novel.title}
               </h3>
+              {novel.author && (
+                <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">{novel.author}</p>
+              )}
               <p className="text-sm text-slate-500 dark:text-slate-500 mb-4">
                 Added {novel.createdAt.toLocaleDateString()}
               </p>
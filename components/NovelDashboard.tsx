@@ -1,10 +1,21 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { db, bulkAddChapters } from '../services/db';
+import React, { useRef, useState } from 'react';
+import { db, bulkAddChapters, importBookIntoNovel } from '../services/db';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { extractTermsFromText, findArabicTranslationForTerm, translateChapterWithGlossary } from '../services/geminiService';
-import { Upload, FileText, Sparkles, Database, ArrowLeft, Play, Pause, Download, AlertCircle } from 'lucide-react';
-import { Term, TermCategory } from '../types';
-import jsPDF from 'jspdf';
+import { getProvider } from '../services/translationProvider';
+import { getLanguages } from '../services/languages';
+import { repairChapterTerms, recheckNovelCompliance } from '../services/chapterTranslation';
+import { enqueueChapters, setQueuePaused, cancelQueuedJobs, retryJobs, dismissJobs } from '../services/translationQueue';
+import { Upload, FileText, Sparkles, Database, ArrowLeft, Play, Pause, Download, AlertCircle, AlertTriangle, Scissors, Cpu, RotateCcw, X, ScrollText } from 'lucide-react';
+import { Chapter, DeepScanMode } from '../types';
+import { buildEpub, EpubExportOptions } from '../services/epubExport';
+import { downloadBlob, safeFileName } from '../services/fileUtils';
+import { isBookFile, parseBookFile } from '../services/bookImport';
+import { TextImportDialog } from './TextImportDialog';
+import { ProviderSettings } from './ProviderSettings';
+import { PromptEditor } from './PromptEditor';
+import { ERROR_LABELS, classifyError, describeTranslationError } from '../services/translationErrors';
+import { startDeepScan, runDeepScan, countUnscannedChapters } from '../services/deepScan';
+import { getEffectiveGlossary } from '../services/sharedGlossaries';
 
 interface Props {
   novelId: number;
@@ -16,143 +27,171 @@ interface Props {
 export const NovelDashboard: React.FC<Props> = ({ novelId, onBack, onOpenReader, onOpenGlossary }) => {
   const novel = useLiveQuery(() => db.novels.get(novelId), [novelId]);
   const chapters = useLiveQuery(() => db.chapters.where({ novelId }).sortBy('order'), [novelId]);
-  const glossaryCount = useLiveQuery(() => db.glossary.where({ novelId }).count(), [novelId]);
+  const glossaryCount = useLiveQuery(async () => (await getEffectiveGlossary(novelId)).length, [novelId]);
+  const proposalCount = useLiveQuery(() => db.scanCandidates.where({ novelId, status: 'proposed' }).count(), [novelId]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isTextImportOpen, setIsTextImportOpen] = useState(false);
+  const [isProviderOpen, setIsProviderOpen] = useState(false);
+  const [isPromptOpen, setIsPromptOpen] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
   const [scanProgress, setScanProgress] = useState('');
+  const [scanFraction, setScanFraction] = useState(0);
+  const [isScanMenuOpen, setIsScanMenuOpen] = useState(false);
+  const [useSearchPass, setUseSearchPass] = useState(false);
+  const stopScanRef = useRef(false);
+  const unscannedCount = chapters ? countUnscannedChapters(chapters) : 0;
+  const languages = getLanguages(novel);
+  const supportsSearch = getProvider(novel?.provider, languages).supportsSearch;
 
-  // Bulk Translation State
-  const [isBulkTranslating, setIsBulkTranslating] = useState(false);
-  const [bulkPaused, setBulkPaused] = useState(false);
-  const [bulkProgress, setBulkProgress] = useState({ current: 0, total: 0, chapterName: '' });
-  const stopSignal = useRef(false);
+  // Bulk Translation State (persisted job queue)
+  const jobs = useLiveQuery(() => db.jobs.where({ novelId }).toArray(), [novelId]);
+  const pendingJobs = jobs?.filter(j => j.status === 'queued' || j.status === 'running') || [];
+  const failedJobs = jobs?.filter(j => j.status === 'failed') || [];
+  const runningJob = jobs?.find(j => j.status === 'running');
+  const isBulkTranslating = pendingJobs.length > 0;
+  const bulkPaused = !!novel?.queuePaused;
+  const bulkProgress = {
+    current: jobs?.filter(j => j.status === 'done' || j.status === 'failed').length || 0,
+    total: jobs?.length || 0,
+  };
+  const chapterTitle = (chapterId: number) => chapters?.find(c => c.id === chapterId)?.title || `#${chapterId}`;
+
+  // Export State
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [untranslatedMode, setUntranslatedMode] = useState<EpubExportOptions['untranslated']>('placeholder');
 
   // File Upload
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      await bulkAddChapters(novelId, e.target.files);
+    const files: File[] = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    // EPUB / HTML books are split into chapters; plain .txt files are one chapter each
+    const books = files.filter(isBookFile);
+    const textFiles = files.filter(f => !isBookFile(f));
+    if (textFiles.length > 0) {
+      await bulkAddChapters(novelId, textFiles);
     }
+    try {
+      for (const file of books) {
+        const book = await parseBookFile(file);
+        if (book.chapters.length === 0) {
+          alert(`No chapters found in ${file.name}.`);
+          continue;
+        }
+        await importBookIntoNovel(novelId, book);
+      }
+    } catch (err) {
+      console.error('Book import failed', err);
+      alert('Import failed. The file may be corrupt or DRM-protected.');
+    }
+    e.target.value = '';
   };
 
-  // --- Deep Scan Logic (Existing) ---
-  const runDeepScan = async () => {
+  // --- Deep Scan Logic ---
+  // `mode` starts a new scan; without it the unfinished one is resumed
+  const runScan = async (mode?: DeepScanMode) => {
     if (!chapters || chapters.length === 0) return;
+    setIsScanMenuOpen(false);
     setIsScanning(true);
+    stopScanRef.current = false;
     setScanProgress('Initializing Deep Scan...');
     try {
-      const sampleChapters = [
-        ...chapters.slice(0, 3),
-        chapters[Math.floor(chapters.length / 2)],
-        ...chapters.slice(-3)
-      ].filter(Boolean);
-
-      const combinedText = sampleChapters.map(c => c.content).join('\n\n');
-      setScanProgress('Extracting entities (AI)...');
-      const rawTerms = await extractTermsFromText(combinedText);
-      const existingTerms = await db.glossary.where({ novelId }).toArray();
-      const existingOriginals = new Set(existingTerms.map(t => t.original.toLowerCase()));
-      const uniqueNewTerms = rawTerms.filter(t => t.original && !existingOriginals.has(t.original.toLowerCase()));
-      
-      setScanProgress(`Found ${uniqueNewTerms.length} new terms. Translating...`);
-      let completed = 0;
-      for (const term of uniqueNewTerms) {
-        if (!term.original) continue;
-        const snippet = combinedText.substring(combinedText.indexOf(term.original), combinedText.indexOf(term.original) + 100);
-        const translation = await findArabicTranslationForTerm(term.original, snippet);
-        await db.glossary.add({
-          novelId,
-          original: term.original,
-          category: (term.category as TermCategory) || TermCategory.OTHER,
-          translation: translation,
-          isLocked: false
-        });
-        completed++;
-        setScanProgress(`Translating terms: ${completed}/${uniqueNewTerms.length}`);
-      }
-      setScanProgress('Scan Complete!');
+      if (mode) await startDeepScan(novelId, mode, useSearchPass);
+      const finished = await runDeepScan(novelId, {
+        shouldStop: () => stopScanRef.current,
+        onProgress: ({ phase, done, total, candidates }) => {
+          setScanFraction(total ? done / total : 0);
+          setScanProgress(
+            phase === 'extracting' ? `Scanning window ${done + 1}/${total} • ${candidates} candidates` :
+            phase === 'counting' ? `Counting occurrences of ${candidates} candidates...` :
+            phase === 'translating' ? `Translating terms: ${done}/${total}` :
+            `Looking up uncertain terms: ${done}/${total}`
+          );
+        }
+      });
+      const proposed = await db.scanCandidates.where({ novelId, status: 'proposed' }).count();
+      setScanProgress(finished ? `Scan Complete! ${proposed} terms await review in the Glossary.` : 'Scan paused. Resume any time.');
       setTimeout(() => setIsScanning(false), 2000);
     } catch (err) {
       console.error(err);
-      setScanProgress('Scan Failed.');
-      setTimeout(() => setIsScanning(false), 3000);
+      setScanProgress(`Scan failed: ${describeTranslationError(classifyError(err))}. Progress is kept.`);
+      setTimeout(() => setIsScanning(false), 5000);
     }
   };
 
   // --- Bulk Translation Logic (Queue) ---
-  const startBulkTranslation = async () => {
+  // `targets` re-translates specific chapters (e.g. glossary violations) instead of the untranslated ones
+  const startBulkTranslation = async (targets?: Chapter[]) => {
     if (!chapters) return;
-    const untranslated = chapters.filter(c => !c.translatedContent);
+    const untranslated = targets || chapters.filter(c => !c.translatedContent);
     if (untranslated.length === 0) {
         alert("All chapters are already translated!");
         return;
     }
+    await enqueueChapters(novelId, untranslated);
+  };
 
-    setIsBulkTranslating(true);
-    setBulkPaused(false);
-    stopSignal.current = false;
-    setBulkProgress({ current: 0, total: untranslated.length, chapterName: '' });
-
-    // Use a recursive-like async loop to handle the queue
-    const glossary = await db.glossary.where({ novelId }).toArray();
-    
-    for (let i = 0; i < untranslated.length; i++) {
-        // Check for Stop signal
-        if (stopSignal.current) break;
-        
-        // Pause Logic: Wait while paused
-        while (stopSignal.current === false && bulkPausedRef.current) { // Use ref for reading inside loop
-           await new Promise(r => setTimeout(r, 500));
-        }
+  const togglePause = () => setQueuePaused(novelId, !bulkPaused);
+  const stopBulk = () => cancelQueuedJobs(novelId);
 
-        const chapter = untranslated[i];
-        setBulkProgress({ current: i + 1, total: untranslated.length, chapterName: chapter.title });
-        
-        try {
-            const result = await translateChapterWithGlossary(chapter.content, glossary);
-            await db.chapters.update(chapter.id!, { 
-                translatedContent: result,
-                lastTranslated: new Date()
-            });
-            // Small delay to be nice to API
-            await new Promise(r => setTimeout(r, 1000)); 
-        } catch (e) {
-            console.error(`Failed to translate ${chapter.title}`, e);
-        }
-    }
+  // --- Glossary Compliance ---
+  const violatingChapters = chapters?.filter(c => c.glossaryViolations && c.glossaryViolations.length > 0) || [];
 
-    setIsBulkTranslating(false);
-    alert("Bulk translation process finished.");
+  const recheckCompliance = async () => {
+    setIsScanning(true);
+    setScanProgress('Checking glossary compliance...');
+    const failing = await recheckNovelCompliance(novelId);
+    setScanProgress(`${failing} chapter(s) violate the glossary.`);
+    setTimeout(() => setIsScanning(false), 2000);
   };
 
-  // Ref trick to read state inside async loop
-  const bulkPausedRef = useRef(false);
-  useEffect(() => { bulkPausedRef.current = bulkPaused; }, [bulkPaused]);
-
-  const togglePause = () => setBulkPaused(!bulkPaused);
-  const stopBulk = () => { stopSignal.current = true; setIsBulkTranslating(false); };
-
+  const repairAllViolations = async () => {
+    const targets = violatingChapters;
+    if (targets.length === 0) return;
+    setIsScanning(true);
+    const glossary = await getEffectiveGlossary(novelId);
+    let failed = 0;
+    for (let i = 0; i < targets.length; i++) {
+      setScanProgress(`Repairing glossary terms: ${i + 1}/${targets.length}`);
+      try {
+        await repairChapterTerms(targets[i], glossary);
+      } catch (e) {
+        console.error(`Failed to repair ${targets[i].title}`, e);
+        failed++;
+      }
+    }
+    setScanProgress(failed ? `Repair finished with ${failed} failure(s).` : 'Repair complete!');
+    setTimeout(() => setIsScanning(false), 2000);
+  };
 
   // --- Export Logic ---
-  const handleExport = () => {
+  const exportText = () => {
     if (!chapters || !novel) return;
-    const doc = new jsPDF();
-    
-    // Configure font (Amiri for Arabic support) - standard jsPDF doesn't support Arabic well without custom fonts.
-    // For this demo, we will stick to a simpler Text File download as fallback for robust Arabic support, 
-    // or assume standard font. Let's do a Text File download for reliability in this env.
-    
-    const textContent = chapters.map(c => 
-      `### ${c.title}\n\n${c.translatedContent || "[Not Translated]"}\n\n`
-    ).join('***\n\n');
+    const textContent = chapters
+      .filter(c => c.translatedContent || untranslatedMode === 'placeholder')
+      .map(c => `### ${c.title}\n\n${c.translatedContent || "[Not Translated]"}\n\n`)
+      .join('***\n\n');
 
     const blob = new Blob([textContent], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${novel.title}_Arabic.txt`;
-    link.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `${safeFileName(novel.title)}_${languages.target.name}.txt`);
+    setIsExportOpen(false);
+  };
+
+  const exportEpub = async () => {
+    if (!chapters || !novel) return;
+    setIsExporting(true);
+    try {
+      const blob = await buildEpub(novel, chapters, { untranslated: untranslatedMode });
+      downloadBlob(blob, `${safeFileName(novel.title)}_${languages.target.name}.epub`);
+      setIsExportOpen(false);
+    } catch (e) {
+      console.error('EPUB export failed', e);
+      alert('EPUB export failed.');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
 
@@ -170,7 +209,17 @@ export const NovelDashboard: React.FC<Props> = ({ novelId, onBack, onOpenReader,
           <div>
             <h1 className="text-2xl font-bold text-slate-800 dark:text-slate-100">{novel.title}</h1>
             <p className="text-slate-500 dark:text-slate-500 text-sm">
-              {chapters?.length || 0} Chapters • {glossaryCount || 0} Glossary Terms
+              {chapters?.length || 0} Chapters • {glossaryCount || 0} Glossary Terms •{' '}
+              {!!proposalCount && (
+                <><button onClick={onOpenGlossary} className="text-amber-600 dark:text-amber-400 hover:underline">{proposalCount} to review</button> •{' '}</>
+              )}
+              <button onClick={() => setIsProviderOpen(true)} className="inline-flex items-center gap-1 hover:text-primary">
+                <Cpu size={12} /> {novel.provider?.type === 'openai-compatible' ? `Local: ${novel.provider.model || 'default model'}` : novel.provider?.type === 'mock' ? 'Mock provider' : 'Gemini'}
+                {' '}• {languages.source?.name || 'Auto'} → {languages.target.name}
+              </button>{' '}•{' '}
+              <button onClick={() => setIsPromptOpen(true)} className="inline-flex items-center gap-1 hover:text-primary">
+                <ScrollText size={12} /> Style & prompt
+              </button>
             </p>
           </div>
         </div>
@@ -181,35 +230,130 @@ export const NovelDashboard: React.FC<Props> = ({ novelId, onBack, onOpenReader,
             className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300"
           >
             <Upload size={18} /> Upload
-            <input type="file" multiple accept=".txt" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+            <input type="file" multiple accept=".txt,.epub,.html,.htm,.xhtml" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
           </button>
 
-          <button onClick={handleExport} className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300">
-            <Download size={18} /> Export
+          <button
+            onClick={() => setIsTextImportOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300"
+            title="Split a single .txt file into chapters"
+          >
+            <Scissors size={18} /> Split TXT
           </button>
 
+          <div className="relative">
+            <button onClick={() => setIsExportOpen(!isExportOpen)} className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300">
+              <Download size={18} /> Export
+            </button>
+
+            {isExportOpen && (
+              <div className="absolute top-full right-0 mt-2 w-64 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-4 z-20">
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">Untranslated Chapters</label>
+                <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-lg mb-4">
+                  {(['placeholder', 'skip'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setUntranslatedMode(mode)}
+                      className={`flex-1 py-1.5 text-sm rounded-md transition-all ${untranslatedMode === mode ? 'bg-white dark:bg-slate-700 shadow text-primary' : 'text-slate-500'}`}
+                    >
+                      {mode === 'placeholder' ? 'Placeholder' : 'Skip'}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-col gap-2">
+                  <button
+                    onClick={exportEpub}
+                    disabled={isExporting}
+                    className="w-full px-3 py-2 bg-primary hover:bg-indigo-600 text-white rounded-lg text-sm font-medium disabled:opacity-60"
+                  >
+                    {isExporting ? 'Building EPUB...' : 'EPUB (e-readers)'}
+                  </button>
+                  <button
+                    onClick={exportText}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+                  >
+                    Plain Text (.txt)
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
           <button onClick={onOpenGlossary} className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300">
             <Database size={18} /> Glossary
           </button>
           
-          <button 
-            onClick={runDeepScan}
-            disabled={isScanning || !chapters?.length}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium
-              ${isScanning ? 'bg-slate-400 cursor-wait' : 'bg-accent hover:bg-rose-600'}
-            `}
-          >
-            <Sparkles size={18} /> {isScanning ? 'Scanning...' : 'Deep Scan'}
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => (novel.deepScan ? runScan() : setIsScanMenuOpen(!isScanMenuOpen))}
+              disabled={isScanning || !chapters?.length}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium
+                ${isScanning ? 'bg-slate-400 cursor-wait' : 'bg-accent hover:bg-rose-600'}
+              `}
+            >
+              <Sparkles size={18} /> {isScanning ? 'Scanning...' : novel.deepScan ? 'Resume Scan' : 'Deep Scan'}
+            </button>
+
+            {isScanMenuOpen && !isScanning && (
+              <div className="absolute top-full right-0 mt-2 w-64 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-2 z-20">
+                <button
+                  onClick={() => runScan('all')}
+                  className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+                >
+                  Scan all {chapters?.length} chapters
+                </button>
+                <button
+                  onClick={() => runScan('new')}
+                  disabled={unscannedCount === 0}
+                  className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+                >
+                  Scan new chapters only ({unscannedCount})
+                </button>
+                <label
+                  className={`flex items-start gap-2 px-3 py-2 mt-1 border-t border-slate-100 dark:border-slate-700 text-xs text-slate-500 dark:text-slate-400 ${supportsSearch ? 'cursor-pointer' : 'opacity-50'}`}
+                  title={supportsSearch ? '' : 'The current provider has no web search'}
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={useSearchPass && supportsSearch}
+                    disabled={!supportsSearch}
+                    onChange={e => setUseSearchPass(e.target.checked)}
+                  />
+                  Search-grounded second pass for uncertain or famous terms (slower)
+                </label>
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
+      {isProviderOpen && (
+        <ProviderSettings novel={novel} onClose={() => setIsProviderOpen(false)} />
+      )}
+
+      {isPromptOpen && (
+        <PromptEditor novel={novel} onClose={() => setIsPromptOpen(false)} />
+      )}
+
+      {isTextImportOpen && (
+        <TextImportDialog novelId={novelId} onClose={() => setIsTextImportOpen(false)} />
+      )}
+
       {/* Progress Bars */}
       {isScanning && (
         <div className="bg-indigo-50 dark:bg-indigo-900/20 px-8 py-3 border-b border-indigo-100 dark:border-indigo-800 flex items-center justify-between">
           <span className="text-indigo-700 dark:text-indigo-300 font-medium animate-pulse">{scanProgress}</span>
-          <div className="h-2 w-48 bg-indigo-200 dark:bg-indigo-800 rounded-full overflow-hidden">
-            <div className="h-full bg-indigo-500 animate-progress-indeterminate"></div>
+          <div className="flex items-center gap-4">
+            <div className="h-2 w-48 bg-indigo-200 dark:bg-indigo-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${scanFraction * 100}%` }}></div>
+            </div>
+            <button
+              onClick={() => { stopScanRef.current = true; }}
+              className="flex items-center gap-1 text-sm text-indigo-700 dark:text-indigo-300 hover:underline"
+            >
+              <Pause size={14} /> Pause
+            </button>
           </div>
         </div>
       )}
@@ -219,7 +363,10 @@ export const NovelDashboard: React.FC<Props> = ({ novelId, onBack, onOpenReader,
             <div className="flex items-center justify-between mb-2">
                 <span className="text-emerald-800 dark:text-emerald-300 font-bold flex items-center gap-2">
                     <Sparkles size={16} /> 
-                    Translating: {bulkProgress.chapterName} ({bulkProgress.current}/{bulkProgress.total})
+                    {runningJob
+                      ? <>Translating: {chapterTitle(runningJob.chapterId)} ({bulkProgress.current + 1}/{bulkProgress.total})</>
+                      : <>{bulkPaused ? 'Paused' : 'Waiting'} ({bulkProgress.current}/{bulkProgress.total})</>}
+                    {runningJob?.progress && <span className="font-normal text-sm opacity-75">{runningJob.progress}</span>}
                 </span>
                 <div className="flex gap-2">
                     <button onClick={togglePause} className="px-3 py-1 bg-white dark:bg-slate-800 border rounded text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700">
@@ -247,7 +394,7 @@ export const NovelDashboard: React.FC<Props> = ({ novelId, onBack, onOpenReader,
                     <p className="opacity-90 text-sm">Translate all {chapters.filter(c => !c.translatedContent).length} untranslated chapters sequentially.</p>
                 </div>
                 <button 
-                    onClick={startBulkTranslation}
+                    onClick={() => startBulkTranslation()}
                     className="bg-white text-indigo-600 px-6 py-3 rounded-lg font-bold shadow-md hover:bg-indigo-50 transition-transform active:scale-95"
                 >
                     Start Batch Translation
@@ -255,6 +402,80 @@ export const NovelDashboard: React.FC<Props> = ({ novelId, onBack, onOpenReader,
              </div>
         )}
 
+        {/* Failed Translation Jobs */}
+        {failedJobs.length > 0 && (
+             <div className="mb-8 bg-white dark:bg-slate-900 rounded-xl border border-red-200 dark:border-red-900 overflow-hidden">
+                <div className="px-6 py-3 bg-red-50 dark:bg-red-900/20 flex items-center justify-between">
+                    <span className="text-sm font-semibold text-red-700 dark:text-red-300 flex items-center gap-2">
+                        <AlertCircle size={16} /> {failedJobs.length} chapter(s) failed to translate
+                    </span>
+                    <div className="flex gap-2">
+                        <button onClick={() => retryJobs(failedJobs.map(j => j.id!))} className="px-3 py-1 bg-white dark:bg-slate-800 border border-red-200 dark:border-red-800 rounded text-sm font-medium text-red-700 dark:text-red-300 hover:bg-red-50">
+                            Retry all
+                        </button>
+                        <button onClick={() => dismissJobs(failedJobs.map(j => j.id!))} className="px-3 py-1 text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+                            Dismiss
+                        </button>
+                    </div>
+                </div>
+                <ul className="divide-y divide-slate-100 dark:divide-slate-800 max-h-64 overflow-auto">
+                    {failedJobs.map(job => (
+                        <li key={job.id} className="px-6 py-2 flex items-center justify-between gap-4 text-sm">
+                            <div className="min-w-0">
+                                <button onClick={() => onOpenReader(job.chapterId)} className="font-medium text-slate-800 dark:text-slate-200 hover:text-primary">
+                                    {chapterTitle(job.chapterId)}
+                                </button>
+                                <p className="text-xs text-slate-500 truncate" title={job.lastError}>
+                                    {job.attempts} attempt(s) • {job.lastError}
+                                </p>
+                            </div>
+                            <div className="flex gap-1 shrink-0">
+                                <button onClick={() => retryJobs([job.id!])} className="p-1 text-slate-400 hover:text-primary rounded" title="Retry">
+                                    <RotateCcw size={16} />
+                                </button>
+                                <button onClick={() => dismissJobs([job.id!])} className="p-1 text-slate-400 hover:text-red-500 rounded" title="Dismiss">
+                                    <X size={16} />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+             </div>
+        )}
+
+        {/* Glossary Compliance Banner */}
+        {!isBulkTranslating && chapters && chapters.some(c => c.translatedContent) && (
+             <div className={`mb-8 px-6 py-4 rounded-xl border flex items-center justify-between
+                ${violatingChapters.length > 0
+                  ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'
+                  : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800'}
+             `}>
+                <div className="flex items-center gap-3">
+                    <AlertTriangle size={20} className={violatingChapters.length > 0 ? 'text-amber-500' : 'text-slate-400'} />
+                    <span className="text-sm text-slate-700 dark:text-slate-300">
+                        {violatingChapters.length > 0
+                          ? `${violatingChapters.length} translated chapter(s) do not use the required glossary translations.`
+                          : 'No glossary violations recorded.'}
+                    </span>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={recheckCompliance} disabled={isScanning} className="px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-800">
+                        Re-check
+                    </button>
+                    {violatingChapters.length > 0 && (
+                      <>
+                        <button onClick={repairAllViolations} disabled={isScanning} className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-sm font-medium">
+                            Auto-repair all
+                        </button>
+                        <button onClick={() => startBulkTranslation(violatingChapters)} disabled={isScanning} className="px-3 py-1.5 border border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-300 rounded-lg text-sm font-medium hover:bg-amber-100 dark:hover:bg-amber-900/30">
+                            Re-translate all
+                        </button>
+                      </>
+                    )}
+                </div>
+             </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
           {chapters?.map((chapter) => (
             <div 
@@ -266,7 +487,19 @@ export const NovelDashboard: React.FC<Props> = ({ novelId, onBack, onOpenReader,
                 <span className="text-xs font-semibold text-slate-400 uppercase">
                   Chapter {chapter.order}
                 </span>
-                {chapter.translatedContent ? (
+                {chapter.glossaryViolations && chapter.glossaryViolations.length > 0 ? (
+                   <span
+                     className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 text-xs font-semibold"
+                     title={`Glossary violations: ${chapter.glossaryViolations.map(v => v.original).join(', ')}`}
+                   >
+                     <AlertTriangle size={12} /> {chapter.glossaryViolations.length}
+                   </span>
+                ) : chapter.translationStatus === 'failed' && chapter.lastError ? (
+                   <span
+                     className="w-2 h-2 rounded-full bg-red-500"
+                     title={`${ERROR_LABELS[chapter.lastError.kind]}: ${chapter.lastError.message}`}
+                   ></span>
+                ) : chapter.translatedContent ? (
                    <span className="w-2 h-2 rounded-full bg-emerald-500" title="Translated"></span>
                 ) : (
                    <span className="w-2 h-2 rounded-full bg-slate-300" title="Not Translated"></span>
@@ -278,6 +511,11 @@ export const NovelDashboard: React.FC<Props> = ({ novelId, onBack, onOpenReader,
               <div className="mt-4 flex items-center text-xs text-slate-400">
                 <FileText size={14} className="mr-1" />
                 {chapter.content.length.toLocaleString()} chars
+                {chapter.injectedTermIds && (
+                  <span className="ml-auto" title="Glossary terms sent with the translation">
+                    {chapter.injectedTermIds.length} terms
+                  </span>
+                )}
               </div>
             </div>
           ))}
@@ -286,7 +524,7 @@ export const NovelDashboard: React.FC<Props> = ({ novelId, onBack, onOpenReader,
             <div className="col-span-full py-20 flex flex-col items-center justify-center text-slate-400 border-2 border-dashed border-slate-300 dark:border-slate-700 rounded-xl">
               <Upload size={48} className="mb-4 opacity-50" />
               <p className="text-lg font-medium">No chapters uploaded yet</p>
-              <p className="text-sm">Upload .txt files to get started</p>
+              <p className="text-sm">Upload .txt files, an EPUB or a saved HTML page to get started</p>
             </div>
           )}
         </div>
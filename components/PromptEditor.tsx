@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { db } from '../services/db';
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+  DEFAULT_TRANSLATION_TEMPLATE, TEMPLATE_VARIABLES, getPromptSettings, restorePromptVersion, savePromptSettings, validateTemplate
+} from '../services/promptTemplates';
+import { previewChapterPrompts } from '../services/translationProvider';
+import { getEffectiveGlossary } from '../services/sharedGlossaries';
+import { getCategories } from '../services/categories';
+import { getLanguages } from '../services/languages';
+import { getPreviousSummaries, getStoryContextSettings } from '../services/storyContext';
+import { Novel, PromptSettings, PromptVersion } from '../types';
+import { X, ScrollText, AlertCircle, RotateCcw } from 'lucide-react';
+
+interface Props {
+  novel: Novel;
+  onClose: () => void;
+}
+
+export const PromptEditor: React.FC<Props> = ({ novel, onClose }) => {
+  const novelId = novel.id!;
+  const saved = getPromptSettings(novel);
+  const [form, setForm] = useState<PromptSettings>(saved);
+  const [note, setNote] = useState('');
+  const [side, setSide] = useState<'preview' | 'history'>('preview');
+  const [previewChapterId, setPreviewChapterId] = useState<number | null>(null);
+  const [previewPart, setPreviewPart] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const chapters = useLiveQuery(() => db.chapters.where({ novelId }).sortBy('order'), [novelId]);
+  const glossary = useLiveQuery(() => getEffectiveGlossary(novelId), [novelId]);
+  const versions = useLiveQuery(() => db.promptVersions.where({ novelId }).reverse().toArray(), [novelId]);
+
+  const problems = validateTemplate(form.template);
+  const isDirty = form.styleGuide !== saved.styleGuide || form.template !== saved.template;
+  const previewChapter = chapters?.find(c => c.id === previewChapterId) || chapters?.[0];
+  const storySummaries = useLiveQuery(async () => {
+    const story = getStoryContextSettings(novel);
+    return previewChapter && story.enabled ? getPreviousSummaries(previewChapter, story.chapters) : [];
+  }, [previewChapter, novel]);
+
+  // Built exactly as translateChapter builds them, from the unsaved form
+  const prompts = useMemo(() => {
+    if (!previewChapter || !glossary || !storySummaries) return [];
+    return previewChapterPrompts(
+      previewChapter.content,
+      glossary,
+      { categories: getCategories(novel), prompt: form, storyContext: storySummaries },
+      getLanguages(novel)
+    );
+  }, [previewChapter, glossary, storySummaries, novel, form]);
+  const part = Math.min(previewPart, Math.max(0, prompts.length - 1));
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await savePromptSettings(novelId, form, note.trim() || undefined);
+      setNote('');
+    } catch (e) {
+      console.error('Saving prompt settings failed', e);
+      alert('Could not save the prompt settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const restore = async (version: PromptVersion) => {
+    if (isDirty && !confirm('Discard your unsaved changes and restore this version?')) return;
+    await restorePromptVersion(version);
+    setForm({ styleGuide: version.styleGuide, template: version.template });
+  };
+
+  const textareaClass = 'w-full border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-6xl h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <ScrollText size={18} /> Style Guide & Prompt
+            {versions && versions.length > 0 && (
+              <span className="text-xs font-normal text-slate-400">v{versions[0].version}{isDirty && ' • unsaved changes'}</span>
+            )}
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-2 divide-x divide-slate-200 dark:divide-slate-800">
+          {/* --- Editor --- */}
+          <div className="flex flex-col gap-3 p-6 overflow-auto">
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Style Guide</label>
+              <textarea
+                value={form.styleGuide}
+                onChange={e => setForm({ ...form, styleGuide: e.target.value })}
+                rows={6}
+                placeholder="e.g. Use formal Fusha for narration and light colloquial speech in dialogue. Keep honorifics like -sama transliterated. Render [System] messages in square brackets."
+                className={textareaClass}
+              />
+            </div>
+            <div className="flex-1 flex flex-col min-h-[16rem]">
+              <div className="flex items-center justify-between mb-1">
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Chapter Prompt Template</label>
+                <button
+                  onClick={() => setForm({ ...form, template: DEFAULT_TRANSLATION_TEMPLATE })}
+                  className="text-xs text-slate-500 hover:text-primary"
+                >
+                  Reset to default
+                </button>
+              </div>
+              <textarea
+                value={form.template}
+                onChange={e => setForm({ ...form, template: e.target.value })}
+                className={`${textareaClass} flex-1 font-mono text-xs`}
+              />
+            </div>
+            <ul className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-slate-500 dark:text-slate-400">
+              {TEMPLATE_VARIABLES.map(v => (
+                <li key={v.name}><code className="text-primary">{`{{${v.name}}}`}</code> {v.description}</li>
+              ))}
+            </ul>
+            {problems.map(problem => (
+              <p key={problem} className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                <AlertCircle size={14} /> {problem}
+              </p>
+            ))}
+          </div>
+
+          {/* --- Preview / History --- */}
+          <div className="flex flex-col min-h-0">
+            <div className="flex gap-4 px-6 pt-4 border-b border-slate-200 dark:border-slate-800">
+              {(['preview', 'history'] as const).map(id => (
+                <button
+                  key={id}
+                  onClick={() => setSide(id)}
+                  className={`pb-2 text-sm font-medium border-b-2 transition-colors ${side === id ? 'border-primary text-primary' : 'border-transparent text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                >
+                  {id === 'preview' ? 'Preview' : `History (${versions?.length || 0})`}
+                </button>
+              ))}
+            </div>
+
+            {side === 'preview' ? (
+              <div className="flex-1 min-h-0 flex flex-col p-6 gap-3">
+                <div className="flex items-center gap-3">
+                  <select
+                    value={previewChapter?.id ?? ''}
+                    onChange={e => {
+                      setPreviewChapterId(Number(e.target.value));
+                      setPreviewPart(0);
+                    }}
+                    className="flex-1 min-w-0 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-1.5 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+                  >
+                    {chapters?.map(c => <option key={c.id} value={c.id}>Ch. {c.order}: {c.title}</option>)}
+                  </select>
+                  {prompts.length > 1 && (
+                    <select
+                      value={part}
+                      onChange={e => setPreviewPart(Number(e.target.value))}
+                      className="border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-1.5 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+                    >
+                      {prompts.map((_, i) => <option key={i} value={i}>Part {i + 1} of {prompts.length}</option>)}
+                    </select>
+                  )}
+                </div>
+                {prompts.length > 0 ? (
+                  <pre className="flex-1 overflow-auto bg-slate-50 dark:bg-slate-800/50 rounded-lg p-4 text-xs text-slate-700 dark:text-slate-300 whitespace-pre-wrap">
+                    {prompts[part]}
+                  </pre>
+                ) : (
+                  <p className="text-center text-slate-400 py-8">Add a chapter to preview the prompt.</p>
+                )}
+              </div>
+            ) : (
+              <ul className="flex-1 overflow-auto divide-y divide-slate-100 dark:divide-slate-800">
+                {versions?.map((version, i) => (
+                  <li key={version.id} className="flex items-center gap-3 px-6 py-3 text-sm">
+                    <span className="font-semibold text-slate-700 dark:text-slate-200">v{version.version}</span>
+                    <span className="text-slate-500 dark:text-slate-400">{version.createdAt.toLocaleString()}</span>
+                    {version.note && <span className="text-xs text-slate-400 truncate">{version.note}</span>}
+                    <div className="ml-auto flex gap-2">
+                      <button
+                        onClick={() => setForm({ styleGuide: version.styleGuide, template: version.template })}
+                        className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-700 rounded text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+                        title="Load into the editor without saving"
+                      >
+                        Load
+                      </button>
+                      {i > 0 && (
+                        <button
+                          onClick={() => restore(version)}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-primary hover:bg-indigo-600 text-white rounded"
+                        >
+                          <RotateCcw size={12} /> Restore
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+                {versions?.length === 0 && (
+                  <li className="p-8 text-center text-slate-400">No saved versions yet. The built-in prompt is in use.</li>
+                )}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+          <input
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Version note (optional)"
+            className="flex-1 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+          />
+          <button onClick={onClose} className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700">
+            Close
+          </button>
+          <button
+            onClick={save}
+            disabled={!isDirty || problems.length > 0 || isSaving}
+            className="px-4 py-2 bg-primary hover:bg-indigo-600 text-white rounded-lg font-medium disabled:opacity-60"
+          >
+            {isSaving ? 'Saving...' : 'Save Version'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { db } from '../services/db';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { acceptProposals, rejectProposals, updateProposal } from '../services/glossaryReview';
+import { Check, X, AlertTriangle } from 'lucide-react';
+import { categoryOptions, getCategories } from '../services/categories';
+import { getLanguages } from '../services/languages';
+import { formatProfile } from '../services/characterProfiles';
+import { TermCandidate } from '../types';
+
+interface Props {
+  novelId: number;
+  filter: string;
+}
+
+export const ProposalReview: React.FC<Props> = ({ novelId, filter }) => {
+  const proposals = useLiveQuery(
+    async () => (await db.scanCandidates.where({ novelId, status: 'proposed' }).toArray())
+      .sort((a, b) => b.occurrences - a.occurrences),
+    [novelId]
+  );
+  const novel = useLiveQuery(() => db.novels.get(novelId), [novelId]);
+  const categories = getCategories(novel);
+  const target = getLanguages(novel).target;
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+
+  const visible = proposals?.filter(p =>
+    p.original.toLowerCase().includes(filter.toLowerCase()) || (p.translation || '').includes(filter)
+  ) || [];
+  const allSelected = visible.length > 0 && visible.every(p => selected.has(p.id!));
+
+  const toggle = (id: number) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(visible.map(p => p.id!)));
+
+  const accept = async (ids: number[]) => {
+    if (ids.length === 0) return;
+    setIsWorking(true);
+    try {
+      const result = await acceptProposals(novelId, ids);
+      if (result.skippedLocked.length > 0) {
+        alert(`Skipped ${result.skippedLocked.length} locked term(s): ${result.skippedLocked.slice(0, 10).join(', ')}`);
+      }
+      if (result.skippedUntranslated.length > 0) {
+        alert(`Skipped ${result.skippedUntranslated.length} term(s) without a translation: ${result.skippedUntranslated.slice(0, 10).join(', ')}`);
+      }
+      setSelected(new Set());
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const reject = async (ids: number[]) => {
+    if (ids.length === 0) return;
+    await rejectProposals(ids);
+    setSelected(new Set());
+  };
+
+  // A failed lookup leaves a proposal empty; the reviewer has to enter a translation first
+  const hasTranslation = (p: TermCandidate) => !!p.translation?.trim();
+  const acceptable = (proposals || []).filter(p => selected.has(p.id!) && hasTranslation(p)).map(p => p.id!);
+  const confident = visible.filter(p => p.confidence === 'high' && !p.needsLookup && hasTranslation(p)).map(p => p.id!);
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-slate-200 dark:border-slate-800 text-sm">
+        <span className="text-slate-500 dark:text-slate-400">{selected.size} selected</span>
+        <button
+          onClick={() => accept(acceptable)}
+          disabled={isWorking || acceptable.length === 0}
+          title={acceptable.length < selected.size ? 'Selected terms without a translation are left for review' : undefined}
+          className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium disabled:opacity-50"
+        >
+          <Check size={14} /> Accept
+        </button>
+        <button
+          onClick={() => reject(Array.from(selected))}
+          disabled={isWorking || selected.size === 0}
+          className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-lg text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+        >
+          <X size={14} /> Reject
+        </button>
+        <button
+          onClick={() => accept(confident)}
+          disabled={isWorking || confident.length === 0}
+          className="ml-auto px-3 py-1.5 border border-emerald-300 dark:border-emerald-800 rounded-lg text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 disabled:opacity-50"
+        >
+          Accept all high-confidence ({confident.length})
+        </button>
+      </div>
+
+      <table className="w-full text-left text-sm">
+        <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400 font-semibold border-b border-slate-200 dark:border-slate-700">
+          <tr>
+            <th className="px-4 py-3 w-8"><input type="checkbox" checked={allSelected} onChange={toggleAll} /></th>
+            <th className="px-4 py-3">Original Term</th>
+            <th className="px-4 py-3">Category</th>
+            <th className="px-4 py-3">Context</th>
+            <th className="px-4 py-3 text-right">Proposed Translation</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+          {visible.map(proposal => (
+            <tr key={proposal.id} className="hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors align-top">
+              <td className="px-4 py-3">
+                <input type="checkbox" checked={selected.has(proposal.id!)} onChange={() => toggle(proposal.id!)} />
+              </td>
+              <td className="px-4 py-3 text-slate-800 dark:text-slate-200">
+                <span className="font-medium">{proposal.original}</span>
+                <span className="block text-xs text-slate-400">
+                  {proposal.occurrences}× • first in ch. {proposal.firstSeenOrder}
+                </span>
+                {proposal.profile && (
+                  <span className="block text-xs text-sky-600 dark:text-sky-400" title="Character profile found by the scan">
+                    {formatProfile(proposal.profile)}
+                  </span>
+                )}
+              </td>
+              <td className="px-4 py-3">
+                <select
+                  className="border border-slate-300 dark:border-slate-700 rounded px-2 py-1 bg-white dark:bg-slate-800 dark:text-white"
+                  value={proposal.category}
+                  onChange={e => updateProposal(proposal.id!, { category: e.target.value })}
+                >
+                  {categoryOptions(categories, proposal.category).map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </td>
+              <td className="px-4 py-3 text-xs text-slate-500 dark:text-slate-400 max-w-xs">
+                <span className="line-clamp-2" title={proposal.context}>{proposal.context}</span>
+              </td>
+              <td className="px-4 py-3 text-right">
+                <div className="flex items-center justify-end gap-2">
+                  {(proposal.confidence === 'low' || proposal.needsLookup) && (
+                    <span title={proposal.confidence === 'low' ? 'Low confidence' : 'May have an established rendering'}>
+                      <AlertTriangle size={14} className="text-amber-500" />
+                    </span>
+                  )}
+                  <input
+                    dir={target.dir}
+                    defaultValue={proposal.translation}
+                    placeholder="Enter a translation"
+                    onChange={e => updateProposal(proposal.id!, { translation: e.target.value })}
+                    className={`w-48 border border-slate-300 dark:border-slate-700 rounded px-2 py-1 ${target.fontClass} bg-white dark:bg-slate-800 text-emerald-700 dark:text-emerald-400`}
+                  />
+                  <button
+                    onClick={() => accept([proposal.id!])}
+                    disabled={isWorking || !hasTranslation(proposal)}
+                    className="text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 p-1 rounded disabled:opacity-30 disabled:hover:bg-transparent"
+                    title={hasTranslation(proposal) ? 'Accept' : 'Enter a translation first'}
+                  >
+                    <Check size={16} />
+                  </button>
+                  <button onClick={() => reject([proposal.id!])} className="text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 p-1 rounded" title="Reject">
+                    <X size={16} />
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {visible.length === 0 && (
+        <div className="p-8 text-center text-slate-400">
+          Nothing to review. Deep Scan results appear here before they enter the glossary.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { db } from '../services/db';
+import { DEFAULT_PROVIDER, getProvider } from '../services/translationProvider';
+import { DEFAULT_OPENAI_BASE_URL } from '../services/openAiCompatibleService';
+import { DEFAULT_TARGET_LANGUAGE, getLanguages, LANGUAGES } from '../services/languages';
+import { getStoryContextSettings } from '../services/storyContext';
+import { classifyError, describeTranslationError } from '../services/translationErrors';
+import { Novel, ProviderConfig, ProviderType, StoryContextSettings } from '../types';
+import { X, Cpu, CheckCircle, AlertCircle } from 'lucide-react';
+
+interface Props {
+  novel: Novel;
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<ProviderType, { label: string; hint: string }> = {
+  'gemini': { label: 'Google Gemini', hint: 'Cloud model with search-grounded term lookup.' },
+  'openai-compatible': { label: 'OpenAI-compatible (local)', hint: 'llama.cpp, Ollama, LM Studio or any /v1/chat/completions server.' },
+  'mock': { label: 'Mock (offline)', hint: 'Deterministic fake output for testing without a model.' },
+};
+
+export const ProviderSettings: React.FC<Props> = ({ novel, onClose }) => {
+  const [form, setForm] = useState<ProviderConfig>(novel.provider || DEFAULT_PROVIDER);
+  const [sourceLanguage, setSourceLanguage] = useState(novel.sourceLanguage || '');
+  const [targetLanguage, setTargetLanguage] = useState(novel.targetLanguage || DEFAULT_TARGET_LANGUAGE);
+  const [storyContext, setStoryContext] = useState<StoryContextSettings>(getStoryContextSettings(novel));
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  // Drop fields that do not apply to the chosen provider before saving
+  const normalized = (): ProviderConfig => ({
+    type: form.type,
+    ...(form.type !== 'mock' && form.model ? { model: form.model } : {}),
+    ...(form.type === 'openai-compatible' ? { baseUrl: form.baseUrl || DEFAULT_OPENAI_BASE_URL } : {}),
+    ...(form.type !== 'mock' && form.apiKey ? { apiKey: form.apiKey } : {}),
+  });
+
+  const save = async () => {
+    // An empty source language is removed, so the model detects it again
+    await db.novels.update(novel.id!, {
+      provider: normalized(),
+      sourceLanguage: sourceLanguage || undefined,
+      targetLanguage,
+      storyContext: { enabled: storyContext.enabled, chapters: Math.max(1, Math.min(10, storyContext.chapters || 1)) },
+    });
+    onClose();
+  };
+
+  const testConnection = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const languages = getLanguages({ ...novel, sourceLanguage: sourceLanguage || undefined, targetLanguage });
+      const result = await getProvider(normalized(), languages).translateChapter('Hello.', []);
+      setTestResult({ ok: true, message: result.slice(0, 80) });
+    } catch (e) {
+      setTestResult({ ok: false, message: describeTranslationError(classifyError(e)) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-lg">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <Cpu size={18} /> Translation Settings
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Source Language</label>
+              <select
+                value={sourceLanguage}
+                onChange={e => setSourceLanguage(e.target.value)}
+                className="w-full border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+              >
+                <option value="">Detect automatically</option>
+                {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Target Language</label>
+              <select
+                value={targetLanguage}
+                onChange={e => setTargetLanguage(e.target.value)}
+                className="w-full border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+              >
+                {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+              </select>
+            </div>
+          </div>
+          {targetLanguage !== (novel.targetLanguage || DEFAULT_TARGET_LANGUAGE) && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Existing translations and glossary renderings stay as they are; re-translate chapters to switch them over.
+            </p>
+          )}
+
+          <label className="flex items-start gap-3 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={storyContext.enabled}
+              onChange={e => setStoryContext({ ...storyContext, enabled: e.target.checked })}
+            />
+            <span>
+              Carry story context: summarize each chapter after translating and include the previous{' '}
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={storyContext.chapters}
+                onChange={e => setStoryContext({ ...storyContext, chapters: Number(e.target.value) })}
+                className="w-14 border border-slate-300 dark:border-slate-700 rounded px-1 py-0.5 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200"
+              />{' '}
+              summaries in the prompt.
+              <span className="block text-xs text-slate-500 dark:text-slate-400">Keeps genders and speakers consistent across chapters. One extra request per chapter.</span>
+            </span>
+          </label>
+
+          <div className="space-y-2">
+            {(Object.keys(PROVIDER_LABELS) as ProviderType[]).map(type => (
+              <label
+                key={type}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors
+                  ${form.type === type ? 'border-primary bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'}
+                `}
+              >
+                <input type="radio" name="provider" className="mt-1" checked={form.type === type} onChange={() => setForm({ ...form, type })} />
+                <div>
+                  <div className="font-medium text-slate-800 dark:text-slate-200">{PROVIDER_LABELS[type].label}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">{PROVIDER_LABELS[type].hint}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {form.type === 'openai-compatible' && (
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Base URL</label>
+              <input
+                value={form.baseUrl || ''}
+                onChange={e => setForm({ ...form, baseUrl: e.target.value })}
+                placeholder={DEFAULT_OPENAI_BASE_URL}
+                className="w-full border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 font-mono text-sm"
+              />
+            </div>
+          )}
+
+          {form.type !== 'mock' && (
+            <>
+              <div>
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Model</label>
+                <input
+                  value={form.model || ''}
+                  onChange={e => setForm({ ...form, model: e.target.value })}
+                  placeholder={form.type === 'gemini' ? 'gemini-3-flash-preview' : 'qwen2.5:14b'}
+                  className="w-full border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 font-mono text-sm"
+                />
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">API Key (optional)</label>
+                <input
+                  type="password"
+                  value={form.apiKey || ''}
+                  onChange={e => setForm({ ...form, apiKey: e.target.value })}
+                  placeholder={form.type === 'gemini' ? 'Uses GEMINI_API_KEY when empty' : 'Not needed for most local servers'}
+                  className="w-full border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 font-mono text-sm"
+                />
+              </div>
+            </>
+          )}
+
+          {testResult && (
+            <div className={`flex items-start gap-2 text-sm ${testResult.ok ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+              {testResult.ok ? <CheckCircle size={16} className="mt-0.5 shrink-0" /> : <AlertCircle size={16} className="mt-0.5 shrink-0" />}
+              <span className="break-all">{testResult.message}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button
+            onClick={testConnection}
+            disabled={isTesting}
+            className="px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-60"
+          >
+            {isTesting ? 'Testing...' : 'Test'}
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700">
+              Cancel
+            </button>
+            <button onClick={save} className="px-4 py-2 bg-primary hover:bg-indigo-600 text-white rounded-lg font-medium">
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
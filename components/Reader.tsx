@@ -1,12 +1,23 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { db } from '../services/db';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { translateChapterWithGlossary } from '../services/geminiService';
+import { translateAndSaveChapter, repairChapterTerms } from '../services/chapterTranslation';
+import { saveManualTranslation } from '../services/revisions';
+import { expectedTranslation, getTermMatcher } from '../services/termMatcher';
+import { ERROR_LABELS } from '../services/translationErrors';
+import { findExistingTerm } from '../services/glossaryAnalysis';
+import { getEffectiveGlossary, isInherited, overrideForNovel } from '../services/sharedGlossaries';
+import { fallbackCategory, getNovelCategories } from '../services/categories';
+import { getLanguages } from '../services/languages';
+import { joinSegments, resolveSegments, translationRange } from '../services/alignment';
+import { getStoryContextSettings, saveChapterSummary, summarizeAndSaveChapter } from '../services/storyContext';
+import { RevisionHistory } from './RevisionHistory';
+import { AlignedView } from './AlignedView';
 import { 
   ArrowLeft, Wand2, ChevronLeft, ChevronRight, Save, 
-  Settings, Type, Moon, Sun, Columns, FileText, PlusCircle 
+  Settings, Type, Moon, Sun, Columns, Rows3, FileText, PlusCircle, Tags, AlertTriangle, AlertCircle, History, NotebookText
 } from 'lucide-react';
-import { ReaderSettings, Term, TermCategory } from '../types';
+import { ReaderFocus, ReaderSettings, Term, TranslationSegment } from '../types';
 
 interface Props {
   chapterId: number;
@@ -14,18 +25,63 @@ interface Props {
   onNavigate: (direction: 'next' | 'prev') => void;
   settings: ReaderSettings;
   onUpdateSettings: (s: Partial<ReaderSettings>) => void;
+  focus?: ReaderFocus; // Occurrence to scroll to and select once the chapter is loaded
 }
 
-export const Reader: React.FC<Props> = ({ chapterId, onBack, onNavigate, settings, onUpdateSettings }) => {
+export const Reader: React.FC<Props> = ({ chapterId, onBack, onNavigate, settings, onUpdateSettings, focus }) => {
   const chapter = useLiveQuery(() => db.chapters.get(chapterId), [chapterId]);
   const [translation, setTranslation] = useState<string>('');
   const [isTranslating, setIsTranslating] = useState(false);
+  const [segmentProgress, setSegmentProgress] = useState<{ done: number; total: number } | null>(null);
   const [editedTranslation, setEditedTranslation] = useState<string>('');
+  const [segmentEdits, setSegmentEdits] = useState<TranslationSegment[] | null>(null); // Rows edited since the last load
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isTermsOpen, setIsTermsOpen] = useState(false);
+  const [isViolationsOpen, setIsViolationsOpen] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  const [summaryDraft, setSummaryDraft] = useState('');
+  const [isSummarizing, setIsSummarizing] = useState(false);
+
+  const glossary = useLiveQuery(
+    () => chapter ? getEffectiveGlossary(chapter.novelId) : [],
+    [chapter?.novelId]
+  );
+  const violations = chapter?.glossaryViolations || [];
+  const novel = useLiveQuery(
+    () => chapter ? db.novels.get(chapter.novelId) : undefined,
+    [chapter?.novelId]
+  );
+  const target = getLanguages(novel).target;
+
+  // Source-text ranges of terms the translation failed to render correctly
+  const violationRanges = useMemo(() => {
+    if (!chapter || !glossary || violations.length === 0) return [];
+    const violated = new Set(violations.map(v => `${v.termId}:${v.expected}`));
+    return getTermMatcher(glossary).findMatches(chapter.content)
+      .filter(m => violated.has(`${m.term.id}:${expectedTranslation(m.term, m.alias).trim()}`));
+  }, [chapter?.content, glossary, chapter?.glossaryViolations]);
+
+  // Translation rows of the split view, aligned to source paragraphs
+  const segments = useMemo(
+    () => chapter ? resolveSegments(chapter.content, editedTranslation, segmentEdits || chapter.segments) : [],
+    [chapter?.content, chapter?.segments, editedTranslation, segmentEdits]
+  );
+
+  // Glossary terms that were sent with the last machine translation
+  const injectedTerms = useLiveQuery(
+    async () => chapter?.injectedTermIds
+      ? (await db.glossary.bulkGet(chapter.injectedTermIds)).filter((t): t is Term => !!t)
+      : [],
+    [chapter?.injectedTermIds]
+  );
   
   // Selection / Popover State
   const [selection, setSelection] = useState<{ text: string, x: number, y: number } | null>(null);
   const readerRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const focusMarkRef = useRef<HTMLElement>(null);
 
   // Sticky Header Logic
   const [showNav, setShowNav] = useState(true);
@@ -59,10 +115,29 @@ export const Reader: React.FC<Props> = ({ chapterId, onBack, onNavigate, setting
     if (chapter) {
       setTranslation(chapter.translatedContent || '');
       setEditedTranslation(chapter.translatedContent || '');
-      window.scrollTo(0, 0);
+      setSegmentEdits(null);
     }
   }, [chapter]);
 
+  // Only on navigation: the chapter also reloads after every saved edit
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [chapterId]);
+
+  // Jump to the requested occurrence: mark it in the source and select the
+  // aligned paragraph of the translation
+  const appliedFocus = useRef<ReaderFocus | undefined>();
+  useEffect(() => {
+    if (!chapter || !focus || appliedFocus.current === focus) return;
+    appliedFocus.current = focus;
+    const range = translationRange(chapter.content, chapter.translatedContent || '', chapter.segments, focus.paragraph);
+    if (range && textareaRef.current) {
+      textareaRef.current.focus({ preventScroll: true });
+      textareaRef.current.setSelectionRange(range.start, range.end);
+    }
+    (focusMarkRef.current || textareaRef.current)?.scrollIntoView({ block: 'center' });
+  }, [chapter, focus]);
+
   // Handle Text Selection for "Live Edit"
   const handleSelection = () => {
     const sel = window.getSelection();
@@ -85,50 +160,155 @@ export const Reader: React.FC<Props> = ({ chapterId, onBack, onNavigate, setting
 
   const addToGlossary = async () => {
     if (!selection || !chapter) return;
-    const arabicTrans = prompt(`Enter Arabic translation for "${selection.text}":`);
-    if (arabicTrans) {
+    const glossary = await getEffectiveGlossary(chapter.novelId);
+    const existing = findExistingTerm(glossary, selection.text);
+    if (existing) {
+      // Update the entry already covering this text instead of adding a duplicate
+      const { term, alias } = existing;
+      const current = expectedTranslation(term, alias);
+      const label = alias ? `alias of "${term.original}"` : `"${term.original}"`;
+      const updated = prompt(`"${selection.text}" is already in the glossary (${label}). Update its ${target.name} translation:`, current);
+      if (updated && updated.trim() !== current) {
+        if (isInherited(term, chapter.novelId)) {
+          // Shared terms are changed for this novel only, through an override
+          await overrideForNovel(term, chapter.novelId, alias
+            ? { original: alias.source, translation: updated.trim(), aliases: [], isLocked: true }
+            : { translation: updated.trim() });
+        } else if (alias) {
+          await db.glossary.update(term.id!, {
+            aliases: term.aliases!.map(a => (a === alias ? { source: a.source, translation: updated.trim() } : a))
+          });
+        } else {
+          await db.glossary.update(term.id!, { translation: updated.trim() });
+        }
+      }
+    } else {
+      const translated = prompt(`Enter ${target.name} translation for "${selection.text}":`);
+      if (!translated) return;
       await db.glossary.add({
         novelId: chapter.novelId,
         original: selection.text,
-        translation: arabicTrans,
-        category: TermCategory.OTHER,
+        translation: translated,
+        category: fallbackCategory(await getNovelCategories(chapter.novelId)),
         isLocked: true
       });
-      alert(`Added "${selection.text}" -> "${arabicTrans}" to glossary. This will apply to future translations.`);
-      setSelection(null);
-      // Clear selection
-      window.getSelection()?.removeAllRanges();
+      alert(`Added "${selection.text}" -> "${translated}" to glossary. This will apply to future translations.`);
     }
+    setSelection(null);
+    // Clear selection
+    window.getSelection()?.removeAllRanges();
   };
 
   const handleTranslate = async () => {
     if (!chapter) return;
     setIsTranslating(true);
+    setSegmentProgress(null);
     try {
-      const glossary = await db.glossary.where({ novelId: chapter.novelId }).toArray();
-      const result = await translateChapterWithGlossary(chapter.content, glossary);
+      const glossary = await getEffectiveGlossary(chapter.novelId);
+      const result = await translateAndSaveChapter(chapter, glossary, {
+        onProgress: (done, total) => setSegmentProgress({ done, total })
+      });
       setTranslation(result);
       setEditedTranslation(result);
-      await db.chapters.update(chapter.id!, { 
-        translatedContent: result,
-        lastTranslated: new Date()
-      });
     } catch (e) {
-      alert('Translation failed');
+      // The failure is stored on the chapter and shown in the error banner
+      console.error('Translation failed', e);
     } finally {
       setIsTranslating(false);
+      setSegmentProgress(null);
+    }
+  };
+
+  const handleRepair = async () => {
+    if (!chapter || !glossary) return;
+    setIsRepairing(true);
+    try {
+      const result = await repairChapterTerms(chapter, glossary);
+      setTranslation(result);
+      setEditedTranslation(result);
+    } catch (e) {
+      console.error('Glossary repair failed', e);
+      alert('Auto-repair failed');
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const handleSummarize = async () => {
+    if (!chapter?.translatedContent) return;
+    setIsSummarizing(true);
+    try {
+      setSummaryDraft(await summarizeAndSaveChapter(chapter, editedTranslation || chapter.translatedContent));
+    } catch (e) {
+      console.error('Chapter summary failed', e);
+      alert('Could not summarize this chapter.');
+    } finally {
+      setIsSummarizing(false);
     }
   };
 
-  const saveManualEdits = async () => {
+  const saveManualEdits = async (text: string) => {
     if (chapter) {
-      await db.chapters.update(chapter.id!, { translatedContent: editedTranslation });
+      await saveManualTranslation(chapter, text, glossary || []);
       // Visual feedback could be added here
     }
   };
 
+  const saveSegmentEdit = (index: number, text: string) => {
+    const next = segments.map((s, i) => (i === index ? { ...s, text } : s));
+    const joined = joinSegments(next);
+    setSegmentEdits(next);
+    setEditedTranslation(joined);
+    if (chapter) saveManualTranslation(chapter, joined, glossary || [], next);
+  };
+
+  // Wraps the violated term occurrences and the focused occurrence of the source in <mark>.
+  // `start`/`end` limit the output to one slice of the source, e.g. a row of the split view.
+  const renderOriginal = (start = 0, end = chapter?.content.length ?? 0) => {
+    if (!chapter) return null;
+    const marks = violationRanges.map(m => ({ start: m.start, end: m.end, focused: false, title: `Expected: ${expectedTranslation(m.term, m.alias)}` }));
+    if (focus && focus.end <= chapter.content.length) {
+      marks.push({ start: focus.start, end: focus.end, focused: true, title: '' });
+    }
+    const inSlice = marks.filter(m => m.start >= start && m.end <= end);
+    if (inSlice.length === 0) return chapter.content.slice(start, end);
+    const parts: React.ReactNode[] = [];
+    let cursor = start;
+    inSlice.sort((a, b) => a.start - b.start || Number(b.focused) - Number(a.focused)).forEach((m, i) => {
+      if (m.start < cursor) return; // Same occurrence as a violation
+      parts.push(chapter.content.slice(cursor, m.start));
+      parts.push(
+        <mark
+          key={i}
+          ref={m.focused ? focusMarkRef : undefined}
+          className={`${m.focused ? 'bg-indigo-200 dark:bg-indigo-700/60 ring-2 ring-primary' : 'bg-amber-200 dark:bg-amber-700/60'} text-inherit rounded px-0.5`}
+          title={m.title || undefined}
+        >
+          {chapter.content.slice(m.start, m.end)}
+        </mark>
+      );
+      cursor = m.end;
+    });
+    parts.push(chapter.content.slice(cursor, end));
+    return parts;
+  };
+
   if (!chapter) return <div className="p-10 text-center dark:text-slate-400">Loading Chapter...</div>;
 
+  const errorBanner = chapter.translationStatus === 'failed' && chapter.lastError && !isTranslating && (
+    <div className="mb-4 flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+      <AlertCircle size={16} className="mt-0.5 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="font-semibold">{ERROR_LABELS[chapter.lastError.kind]}</div>
+        <div className="break-words opacity-90">{chapter.lastError.message}</div>
+        {editedTranslation && <div className="mt-1 opacity-75">The previous translation is kept below.</div>}
+      </div>
+      <button onClick={handleTranslate} className="px-3 py-1 rounded-md bg-red-600 hover:bg-red-700 text-white text-xs font-medium shrink-0">
+        Retry
+      </button>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-slate-100 dark:bg-slate-950 transition-colors">
       
@@ -146,7 +326,47 @@ export const Reader: React.FC<Props> = ({ chapterId, onBack, onNavigate, setting
           </div>
 
           <div className="flex items-center gap-2">
-            <button onClick={() => setIsSettingsOpen(!isSettingsOpen)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded text-slate-600 dark:text-slate-400 relative">
+            {violations.length > 0 && (
+              <button
+                onClick={() => { setIsViolationsOpen(!isViolationsOpen); setIsTermsOpen(false); setIsSettingsOpen(false); setIsSummaryOpen(false); }}
+                className="p-2 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded text-amber-600 dark:text-amber-400 flex items-center gap-1"
+                title="Glossary violations"
+              >
+                <AlertTriangle size={20} />
+                <span className="text-xs font-semibold">{violations.length}</span>
+              </button>
+            )}
+
+            <button
+              onClick={() => { setIsTermsOpen(!isTermsOpen); setIsSettingsOpen(false); setIsViolationsOpen(false); setIsSummaryOpen(false); }}
+              className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded text-slate-600 dark:text-slate-400 flex items-center gap-1"
+              title="Glossary terms used for this translation"
+            >
+              <Tags size={20} />
+              {injectedTerms && injectedTerms.length > 0 && <span className="text-xs font-semibold">{injectedTerms.length}</span>}
+            </button>
+
+            <button
+              onClick={() => {
+                setIsSummaryOpen(!isSummaryOpen);
+                setSummaryDraft(chapter.summary || '');
+                setIsTermsOpen(false); setIsSettingsOpen(false); setIsViolationsOpen(false);
+              }}
+              className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded text-slate-600 dark:text-slate-400"
+              title="Chapter summary for story context"
+            >
+              <NotebookText size={20} />
+            </button>
+
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded text-slate-600 dark:text-slate-400"
+              title="Revision history"
+            >
+              <History size={20} />
+            </button>
+
+            <button onClick={() => { setIsSettingsOpen(!isSettingsOpen); setIsTermsOpen(false); setIsViolationsOpen(false); setIsSummaryOpen(false); }} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded text-slate-600 dark:text-slate-400 relative">
               <Settings size={20} />
             </button>
             
@@ -170,12 +390,111 @@ export const Reader: React.FC<Props> = ({ chapterId, onBack, onNavigate, setting
                 `}
                 >
                 <Wand2 size={16} className={isTranslating ? 'animate-spin' : ''} />
-                <span className="hidden md:inline">{isTranslating ? 'Translating...' : 'Translate'}</span>
+                <span className="hidden md:inline">
+                  {isTranslating
+                    ? `Translating${segmentProgress && segmentProgress.total > 1 ? ` ${segmentProgress.done}/${segmentProgress.total}` : '...'}`
+                    : 'Translate'}
+                </span>
                 </button>
             )}
           </div>
         </div>
 
+        {/* Glossary Violations Dropdown */}
+        {isViolationsOpen && violations.length > 0 && (
+            <div className="absolute top-full right-4 mt-2 w-80 max-h-[60vh] overflow-auto bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-4 animate-in fade-in slide-in-from-top-2">
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">
+                    Glossary Violations
+                </label>
+                <p className="text-xs text-slate-400 mb-2">These terms appear in the source but their required translation is missing.</p>
+                <ul className="divide-y divide-slate-100 dark:divide-slate-700 mb-3">
+                    {violations.map(v => (
+                        <li key={`${v.termId}:${v.expected}`} className="py-1.5 flex justify-between gap-3 text-sm">
+                            <span className="text-slate-700 dark:text-slate-300">{v.original} <span className="text-slate-400">×{v.sourceCount}</span></span>
+                            <span className={`${target.fontClass} text-amber-700 dark:text-amber-400`} dir={target.dir}>{v.expected}</span>
+                        </li>
+                    ))}
+                </ul>
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleRepair}
+                        disabled={isRepairing || isTranslating}
+                        className="flex-1 px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-sm font-medium disabled:opacity-60"
+                    >
+                        {isRepairing ? 'Repairing...' : 'Auto-repair'}
+                    </button>
+                    <button
+                        onClick={handleTranslate}
+                        disabled={isRepairing || isTranslating}
+                        className="flex-1 px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-60"
+                    >
+                        Re-translate
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {/* Injected Terms Dropdown */}
+        {isTermsOpen && (
+            <div className="absolute top-full right-4 mt-2 w-80 max-h-[60vh] overflow-auto bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-4 animate-in fade-in slide-in-from-top-2">
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">
+                    Injected Glossary Terms
+                </label>
+                {!chapter.injectedTermIds ? (
+                    <p className="text-sm text-slate-400">Not recorded. Translate this chapter to see which terms are sent.</p>
+                ) : injectedTerms?.length === 0 ? (
+                    <p className="text-sm text-slate-400">No glossary terms occurred in this chapter.</p>
+                ) : (
+                    <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {injectedTerms?.map(term => (
+                            <li key={term.id} className="py-1.5 flex justify-between gap-3 text-sm">
+                                <span className="text-slate-700 dark:text-slate-300">{term.original}</span>
+                                <span className={`${target.fontClass} text-emerald-700 dark:text-emerald-400`} dir={target.dir}>{term.translation}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        )}
+
+        {/* Chapter Summary Dropdown */}
+        {isSummaryOpen && (
+            <div className="absolute top-full right-4 mt-2 w-96 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-4 animate-in fade-in slide-in-from-top-2">
+                <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">
+                    Chapter Summary
+                </label>
+                <p className="text-xs text-slate-400 mb-2">
+                    {getStoryContextSettings(novel).enabled
+                      ? 'Sent as context when the following chapters are translated. Fix wrong genders or speakers here.'
+                      : 'Story context is off for this novel; turn it on in the translation settings to use summaries.'}
+                </p>
+                <textarea
+                    dir={target.dir}
+                    value={summaryDraft}
+                    onChange={e => setSummaryDraft(e.target.value)}
+                    rows={8}
+                    placeholder="No summary yet."
+                    className={`w-full mb-3 border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm ${target.fontClass} bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-200`}
+                />
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleSummarize}
+                        disabled={!chapter.translatedContent || isSummarizing}
+                        className="flex-1 px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-60"
+                    >
+                        {isSummarizing ? 'Summarizing...' : chapter.summary ? 'Re-summarize' : 'Summarize'}
+                    </button>
+                    <button
+                        onClick={() => saveChapterSummary(chapter.id!, summaryDraft)}
+                        disabled={summaryDraft === (chapter.summary || '')}
+                        className="flex-1 px-3 py-1.5 bg-primary hover:bg-indigo-600 text-white rounded-lg text-sm font-medium disabled:opacity-60"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        )}
+
         {/* Settings Dropdown */}
         {isSettingsOpen && (
             <div className="absolute top-full right-4 mt-2 w-72 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-4 animate-in fade-in slide-in-from-top-2">
@@ -197,6 +516,22 @@ export const Reader: React.FC<Props> = ({ chapterId, onBack, onNavigate, setting
                             <Columns size={14} /> Split
                         </button>
                     </div>
+                    {settings.showOriginal && (
+                        <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-lg mt-2">
+                            <button
+                                onClick={() => onUpdateSettings({ splitLayout: 'columns' })}
+                                className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-sm rounded-md transition-all ${settings.splitLayout !== 'interleaved' ? 'bg-white dark:bg-slate-700 shadow text-primary' : 'text-slate-500'}`}
+                            >
+                                <Columns size={14} /> Side by side
+                            </button>
+                            <button
+                                onClick={() => onUpdateSettings({ splitLayout: 'interleaved' })}
+                                className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-sm rounded-md transition-all ${settings.splitLayout === 'interleaved' ? 'bg-white dark:bg-slate-700 shadow text-primary' : 'text-slate-500'}`}
+                            >
+                                <Rows3 size={14} /> Interleaved
+                            </button>
+                        </div>
+                    )}
                 </div>
 
                 {/* Theme */}
@@ -240,55 +575,85 @@ export const Reader: React.FC<Props> = ({ chapterId, onBack, onNavigate, setting
       </div>
 
       {/* Main Content Area */}
-      <div className={`pt-20 pb-20 px-4 min-h-screen ${settings.showOriginal ? 'flex gap-6 max-w-[1600px] mx-auto' : 'max-w-3xl mx-auto'}`} ref={readerRef}>
+      {settings.showOriginal && editedTranslation ? (
+        <div className="pt-20 pb-20 px-4 min-h-screen max-w-[1600px] mx-auto" ref={readerRef}>
+          {errorBanner}
+          <AlignedView
+            content={chapter.content}
+            segments={segments}
+            target={target}
+            settings={settings}
+            renderSource={renderOriginal}
+            onSourceMouseUp={handleSelection}
+            onChangeSegment={saveSegmentEdit}
+          />
+        </div>
+      ) : (
+        <div className={`pt-20 pb-20 px-4 min-h-screen ${settings.showOriginal ? 'flex gap-6 max-w-[1600px] mx-auto' : 'max-w-3xl mx-auto'}`} ref={readerRef}>
         
-        {/* Original Text (Only in Split View) */}
-        {settings.showOriginal && (
-          <div className="flex-1 hidden lg:block" onMouseUp={handleSelection}>
-            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 sticky top-20 bg-slate-100 dark:bg-slate-950 py-2">Original</h3>
-            <div 
-                className={`prose dark:prose-invert max-w-none text-slate-600 dark:text-slate-400 whitespace-pre-wrap leading-relaxed
-                ${settings.fontFamily === 'serif' ? 'font-serif' : settings.fontFamily === 'mono' ? 'font-mono' : 'font-sans'}
-                `}
-                style={{ fontSize: `${settings.fontSize * 0.9}px` }}
-            >
-              {chapter.content}
-            </div>
-          </div>
-        )}
-
-        {/* Translated Text (Main Reader) */}
-        <div className="flex-1 bg-white dark:bg-slate-900 sm:rounded-2xl sm:shadow-lg sm:p-8 min-h-[80vh] relative">
-          {editedTranslation ? (
-            <textarea
-              dir="rtl"
-              value={editedTranslation}
-              onChange={(e) => {
-                  setEditedTranslation(e.target.value);
-                  saveManualEdits(); // In reality, debouncing this is better
-              }}
-              className={`w-full h-full bg-transparent border-none resize-none focus:ring-0 font-arabic text-slate-800 dark:text-slate-200
-                ${settings.fontFamily === 'serif' ? 'font-serif' : settings.fontFamily === 'mono' ? 'font-mono' : 'font-sans'}
-              `}
-              style={{ 
-                  fontSize: `${settings.fontSize}px`,
-                  lineHeight: settings.lineHeight
-              }}
-            />
-          ) : (
-            <div className="flex flex-col items-center justify-center h-96 text-slate-400 text-center">
-              <Wand2 size={48} className="mb-4 opacity-20" />
-              <p className="mb-4">No translation available yet.</p>
-              <button 
-                onClick={handleTranslate}
-                className="bg-primary text-white px-6 py-2 rounded-full hover:bg-indigo-600 transition-colors"
+          {/* Original Text (Only in Split View) */}
+          {settings.showOriginal && (
+            <div className="flex-1 hidden lg:block" onMouseUp={handleSelection}>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 sticky top-20 bg-slate-100 dark:bg-slate-950 py-2">Original</h3>
+              <div 
+                  className={`prose dark:prose-invert max-w-none text-slate-600 dark:text-slate-400 whitespace-pre-wrap leading-relaxed
+                  ${settings.fontFamily === 'serif' ? 'font-serif' : settings.fontFamily === 'mono' ? 'font-mono' : 'font-sans'}
+                  `}
+                  style={{ fontSize: `${settings.fontSize * 0.9}px` }}
               >
-                Translate Now
-              </button>
+                {renderOriginal()}
+              </div>
             </div>
           )}
+
+          {/* Translated Text (Main Reader) */}
+          <div className="flex-1 bg-white dark:bg-slate-900 sm:rounded-2xl sm:shadow-lg sm:p-8 min-h-[80vh] relative">
+            {errorBanner}
+            {editedTranslation ? (
+              <textarea
+                ref={textareaRef}
+                dir={target.dir}
+                value={editedTranslation}
+                onChange={(e) => {
+                    setEditedTranslation(e.target.value);
+                    saveManualEdits(e.target.value); // In reality, debouncing this is better
+                }}
+                className={`w-full h-full bg-transparent border-none resize-none focus:ring-0 ${target.fontClass} text-slate-800 dark:text-slate-200
+                  ${settings.fontFamily === 'serif' ? 'font-serif' : settings.fontFamily === 'mono' ? 'font-mono' : 'font-sans'}
+                `}
+                style={{ 
+                    fontSize: `${settings.fontSize}px`,
+                    lineHeight: settings.lineHeight
+                }}
+              />
+            ) : (
+              <div className="flex flex-col items-center justify-center h-96 text-slate-400 text-center">
+                <Wand2 size={48} className="mb-4 opacity-20" />
+                <p className="mb-4">No translation available yet.</p>
+                <button 
+                  onClick={handleTranslate}
+                  className="bg-primary text-white px-6 py-2 rounded-full hover:bg-indigo-600 transition-colors"
+                >
+                  Translate Now
+                </button>
+              </div>
+            )}
+          </div>
         </div>
-      </div>
+      )}
+
+      {isHistoryOpen && (
+        <RevisionHistory
+          chapter={chapter}
+          glossary={glossary || []}
+          target={target}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestored={text => {
+            setTranslation(text);
+            setEditedTranslation(text);
+          }}
+        />
+      )}
 
       {/* Floating Action Button for Selection */}
       {selection && (
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../services/db';
+import { restoreRevision } from '../services/revisions';
+import { countWords, diffWords } from '../services/textDiff';
+import { Chapter, ChapterRevision, Language, RevisionSource, Term } from '../types';
+import { X, History, RotateCcw } from 'lucide-react';
+
+interface Props {
+  chapter: Chapter;
+  glossary: Term[];
+  target: Language;
+  onClose: () => void;
+  onRestored: (text: string) => void;
+}
+
+const SOURCE_STYLES: Record<RevisionSource, { label: string; className: string }> = {
+  ai: { label: 'AI', className: 'bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300' },
+  manual: { label: 'Manual', className: 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300' },
+  import: { label: 'Import', className: 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300' },
+};
+
+export const RevisionHistory: React.FC<Props> = ({ chapter, glossary, target, onClose, onRestored }) => {
+  const revisions = useLiveQuery(
+    () => db.revisions.where({ chapterId: chapter.id! }).reverse().toArray(),
+    [chapter.id]
+  );
+  // A is the older side of the diff, B the newer
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [compareId, setCompareId] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Default to the latest revision against the one before it
+  useEffect(() => {
+    if (!revisions || revisions.length === 0) return;
+    if (compareId === null || !revisions.some(r => r.id === compareId)) setCompareId(revisions[0].id!);
+    if (baseId === null || !revisions.some(r => r.id === baseId)) setBaseId(revisions[1]?.id ?? revisions[0].id!);
+  }, [revisions]);
+
+  const base = revisions?.find(r => r.id === baseId);
+  const compare = revisions?.find(r => r.id === compareId);
+
+  const diff = useMemo(
+    () => (base && compare ? diffWords(base.content, compare.content) : []),
+    [base?.id, base?.content, compare?.id, compare?.content]
+  );
+  const added = diff.filter(p => p.op === 'insert').reduce((n, p) => n + countWords(p.text), 0);
+  const removed = diff.filter(p => p.op === 'delete').reduce((n, p) => n + countWords(p.text), 0);
+
+  const restore = async (revision: ChapterRevision) => {
+    setIsRestoring(true);
+    try {
+      onRestored(await restoreRevision(revision, glossary));
+    } catch (e) {
+      console.error('Restore failed', e);
+      alert('Failed to restore revision');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-6xl h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <History size={18} /> Revision History
+            <span className="text-sm font-normal text-slate-500 dark:text-slate-400">{chapter.title}</span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision List */}
+          <div className="w-80 shrink-0 border-r border-slate-200 dark:border-slate-800 overflow-auto">
+            {revisions?.length === 0 && (
+              <p className="p-4 text-sm text-slate-400">No revisions yet. Translating or editing this chapter creates one.</p>
+            )}
+            <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+              {revisions?.map(revision => (
+                <li key={revision.id} className={`p-3 text-sm ${revision.id === compareId ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}`}>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-1.5 py-0.5 rounded text-xs font-semibold ${SOURCE_STYLES[revision.source].className}`}>
+                      {SOURCE_STYLES[revision.source].label}
+                    </span>
+                    <span className="text-slate-600 dark:text-slate-300">{(revision.updatedAt || revision.createdAt).toLocaleString()}</span>
+                  </div>
+                  {revision.note && <div className="text-xs text-slate-500 dark:text-slate-400 mb-1">{revision.note}</div>}
+                  <div className="text-xs text-slate-400 mb-2">
+                    {countWords(revision.content).toLocaleString()} words · {revision.glossary.length} glossary terms
+                    {revision.content === chapter.translatedContent && <span className="ml-1 text-emerald-600 dark:text-emerald-400">· current</span>}
+                  </div>
+                  <div className="flex items-center gap-3 text-xs">
+                    <label className="flex items-center gap-1 cursor-pointer text-slate-600 dark:text-slate-300">
+                      <input type="radio" name="diff-base" checked={revision.id === baseId} onChange={() => setBaseId(revision.id!)} /> A
+                    </label>
+                    <label className="flex items-center gap-1 cursor-pointer text-slate-600 dark:text-slate-300">
+                      <input type="radio" name="diff-compare" checked={revision.id === compareId} onChange={() => setCompareId(revision.id!)} /> B
+                    </label>
+                    <button
+                      onClick={() => restore(revision)}
+                      disabled={isRestoring || revision.content === chapter.translatedContent}
+                      className="ml-auto flex items-center gap-1 px-2 py-1 rounded border border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-40"
+                    >
+                      <RotateCcw size={12} /> Restore
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Diff View */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {base && compare && (
+              <div className="px-6 py-3 border-b border-slate-200 dark:border-slate-800 flex items-center gap-4 text-sm">
+                <span className="text-slate-500 dark:text-slate-400">
+                  A: {base.createdAt.toLocaleString()} → B: {compare.createdAt.toLocaleString()}
+                </span>
+                <span className="text-emerald-600 dark:text-emerald-400">+{added} words</span>
+                <span className="text-red-600 dark:text-red-400">−{removed} words</span>
+              </div>
+            )}
+            <div
+              dir={target.dir}
+              className={`flex-1 overflow-auto px-6 py-4 ${target.fontClass} text-slate-800 dark:text-slate-200 whitespace-pre-wrap leading-relaxed`}
+            >
+              {diff.map((part, i) =>
+                part.op === 'insert' ? (
+                  <ins key={i} className="no-underline bg-emerald-100 dark:bg-emerald-900/40 text-emerald-800 dark:text-emerald-200 rounded">{part.text}</ins>
+                ) : part.op === 'delete' ? (
+                  <del key={i} className="bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 rounded">{part.text}</del>
+                ) : (
+                  <span key={i}>{part.text}</span>
+                )
+              )}
+            </div>
+            {compare && compare.glossary.length > 0 && (
+              <details className="border-t border-slate-200 dark:border-slate-800 px-6 py-3 text-sm">
+                <summary className="cursor-pointer text-slate-600 dark:text-slate-300">Glossary used for B ({compare.glossary.length} terms)</summary>
+                <ul className="mt-2 max-h-40 overflow-auto grid grid-cols-2 gap-x-6">
+                  {compare.glossary.map((entry, i) => (
+                    <li key={i} className="py-0.5 flex justify-between gap-3">
+                      <span className="text-slate-700 dark:text-slate-300">{entry.original}</span>
+                      <span className={`${target.fontClass} text-emerald-700 dark:text-emerald-400`} dir={target.dir}>{entry.translation}</span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { db } from '../services/db';
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+  attachSharedGlossary, createSharedGlossary, deleteSharedGlossary, detachSharedGlossary, moveSharedGlossary, moveTermsToShared
+} from '../services/sharedGlossaries';
+import { X, Layers, ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+
+interface Props {
+  novelId: number;
+  onClose: () => void;
+}
+
+export const SharedGlossariesDialog: React.FC<Props> = ({ novelId, onClose }) => {
+  const novel = useLiveQuery(() => db.novels.get(novelId), [novelId]);
+  const glossaries = useLiveQuery(() => db.sharedGlossaries.orderBy('name').toArray(), []);
+  const termCounts = useLiveQuery(async () => {
+    const counts = new Map<number, number>();
+    await db.glossary.where('sharedGlossaryId').above(0).each(t => counts.set(t.sharedGlossaryId!, (counts.get(t.sharedGlossaryId!) || 0) + 1));
+    return counts;
+  }, []);
+  const usage = useLiveQuery(async () => {
+    const usedBy = new Map<number, number>();
+    (await db.novels.toArray()).forEach(n => (n.sharedGlossaryIds || []).forEach(id => usedBy.set(id, (usedBy.get(id) || 0) + 1)));
+    return usedBy;
+  }, []);
+  const [name, setName] = useState('');
+  const [moveOwnTerms, setMoveOwnTerms] = useState(false);
+
+  const attached = novel?.sharedGlossaryIds || [];
+  const byId = new Map((glossaries || []).map(g => [g.id!, g]));
+  const available = (glossaries || []).filter(g => !attached.includes(g.id!));
+
+  const create = async () => {
+    if (!name.trim()) return;
+    const id = await createSharedGlossary(name, novelId);
+    if (moveOwnTerms) {
+      const own = await db.glossary.where({ novelId }).primaryKeys();
+      await moveTermsToShared(own as number[], id);
+    }
+    setName('');
+    setMoveOwnTerms(false);
+  };
+
+  const remove = async (id: number) => {
+    const users = usage?.get(id) || 0;
+    if (!confirm(`Delete "${byId.get(id)?.name}" and its ${termCounts?.get(id) || 0} terms? It is attached to ${users} novel(s).`)) return;
+    await deleteSharedGlossary(id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <Layers size={18} /> Shared Glossaries
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-5 overflow-auto">
+          <div>
+            <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1 block">Attached to this novel</label>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+              The novel's own terms always win. Between shared glossaries, the one higher in the list wins.
+            </p>
+            <div className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-800">
+              {attached.map((id, i) => (
+                <div key={id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <span className="text-slate-400 w-4">{i + 1}</span>
+                  <span className="font-medium text-slate-800 dark:text-slate-200">{byId.get(id)?.name || 'Missing glossary'}</span>
+                  <span className="text-xs text-slate-400">{termCounts?.get(id) || 0} terms • {usage?.get(id) || 0} novel(s)</span>
+                  <div className="ml-auto flex gap-1">
+                    <button onClick={() => moveSharedGlossary(novelId, id, -1)} disabled={i === 0} className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30" title="Higher precedence">
+                      <ArrowUp size={14} />
+                    </button>
+                    <button onClick={() => moveSharedGlossary(novelId, id, 1)} disabled={i === attached.length - 1} className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30" title="Lower precedence">
+                      <ArrowDown size={14} />
+                    </button>
+                    <button onClick={() => detachSharedGlossary(novelId, id)} className="px-2 py-0.5 text-xs border border-slate-300 dark:border-slate-700 rounded text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800">
+                      Detach
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {attached.length === 0 && <p className="px-3 py-4 text-center text-sm text-slate-400">No shared glossaries attached.</p>}
+            </div>
+          </div>
+
+          {available.length > 0 && (
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">Other shared glossaries</label>
+              <div className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-800">
+                {available.map(g => (
+                  <div key={g.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                    <span className="font-medium text-slate-800 dark:text-slate-200">{g.name}</span>
+                    <span className="text-xs text-slate-400">{termCounts?.get(g.id!) || 0} terms • {usage?.get(g.id!) || 0} novel(s)</span>
+                    <div className="ml-auto flex gap-1">
+                      <button onClick={() => attachSharedGlossary(novelId, g.id!)} className="px-2 py-0.5 text-xs bg-primary hover:bg-indigo-600 text-white rounded">
+                        Attach
+                      </button>
+                      <button onClick={() => remove(g.id!)} className="p-1 text-slate-400 hover:text-red-500" title="Delete shared glossary">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">New shared glossary</label>
+            <div className="flex gap-2">
+              <input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="e.g. Martial Universe"
+                className="flex-1 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-1.5 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 text-sm"
+              />
+              <button
+                onClick={create}
+                disabled={!name.trim()}
+                className="flex items-center gap-1 px-3 py-1.5 bg-primary hover:bg-indigo-600 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+              >
+                <Plus size={14} /> Create
+              </button>
+            </div>
+            <label className="flex items-center gap-2 mt-2 text-sm text-slate-600 dark:text-slate-300">
+              <input type="checkbox" checked={moveOwnTerms} onChange={e => setMoveOwnTerms(e.target.checked)} />
+              Move this novel's terms into it
+            </label>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
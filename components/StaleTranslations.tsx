@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { applyTermChangeByReplace, glossaryFingerprint, TermChange } from '../services/staleTranslations';
+import { enqueueChapters } from '../services/translationQueue';
+import { Chapter, Language, ReaderFocus, Term } from '../types';
+import { Replace, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface Props {
+  novelId: number;
+  chapters: Chapter[];
+  glossary: Term[];
+  changes: TermChange[];
+  target: Language;
+  filter: string;
+  onOpenReader: (chapterId: number, focus?: ReaderFocus) => void;
+}
+
+export const StaleTranslations: React.FC<Props> = ({ novelId, chapters, glossary, changes, target, filter, onOpenReader }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [workingOn, setWorkingOn] = useState<string | null>(null);
+
+  const translated = chapters.filter(c => c.translatedContent);
+  const untracked = translated.filter(c => !c.termRenderings).length;
+  const fingerprint = glossaryFingerprint(glossary);
+  const olderVersion = translated.filter(c => c.glossaryVersion && c.glossaryVersion !== fingerprint).length;
+
+  const visible = changes.filter(c =>
+    !filter || c.original.toLowerCase().includes(filter.toLowerCase()) || c.before.includes(filter) || (c.after || '').includes(filter)
+  );
+
+  const toggle = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setExpanded(next);
+  };
+
+  const retranslate = async (targets: Chapter[]) => {
+    if (!confirm(`Queue ${targets.length} chapter(s) for re-translation? Manual edits are kept in their revision history.`)) return;
+    await enqueueChapters(novelId, [...targets].sort((a, b) => a.order - b.order));
+  };
+
+  const replace = async (change: TermChange) => {
+    setWorkingOn(change.key);
+    try {
+      const result = await applyTermChangeByReplace(change, glossary);
+      if (result.skipped.length > 0) {
+        const message = `Updated ${result.replaced} chapter(s). ${result.skipped.length} did not contain "${change.before}" as a word of its own and need a re-translation.`;
+        if (confirm(`${message} Queue them now?`)) await enqueueChapters(novelId, [...result.skipped].sort((a, b) => a.order - b.order));
+      }
+    } catch (e) {
+      console.error('Applying term change failed', e);
+      alert('Could not apply the term change.');
+    } finally {
+      setWorkingOn(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        {olderVersion} of {translated.length} translated chapter(s) were produced with an older glossary.
+        {untracked > 0 && ` ${untracked} chapter(s) were translated before renderings were recorded and cannot be checked.`}
+      </p>
+
+      {visible.map(change => (
+        <div key={change.key} className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800">
+          <div className="flex flex-wrap items-center gap-3 px-4 py-3">
+            <button onClick={() => toggle(change.key)} className="text-slate-400 hover:text-slate-600">
+              {expanded.has(change.key) ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+            </button>
+            <span className="font-medium text-slate-800 dark:text-slate-200">{change.original}</span>
+            <span className={`${target.fontClass} text-red-600 dark:text-red-400 line-through`} dir={target.dir}>{change.before}</span>
+            <span className="text-slate-400">→</span>
+            {change.after
+              ? <span className={`${target.fontClass} text-emerald-700 dark:text-emerald-400`} dir={target.dir}>{change.after}</span>
+              : <span className="text-xs text-slate-400">removed from glossary</span>}
+            <span className="text-xs text-slate-400">{change.chapters.length} chapter(s)</span>
+            <div className="ml-auto flex gap-2">
+              {change.after && (
+                <button
+                  onClick={() => replace(change)}
+                  disabled={workingOn !== null}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs bg-primary hover:bg-indigo-600 text-white rounded-lg disabled:opacity-50"
+                  title="Find and replace the old rendering in each translation"
+                >
+                  <Replace size={12} /> {workingOn === change.key ? 'Replacing...' : 'Replace in text'}
+                </button>
+              )}
+              <button
+                onClick={() => retranslate(change.chapters)}
+                disabled={workingOn !== null}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs border border-slate-300 dark:border-slate-700 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+              >
+                <RefreshCw size={12} /> Re-translate
+              </button>
+            </div>
+          </div>
+          {expanded.has(change.key) && (
+            <ul className="border-t border-slate-100 dark:border-slate-800 px-4 py-2 text-sm divide-y divide-slate-50 dark:divide-slate-800">
+              {[...change.chapters].sort((a, b) => a.order - b.order).map(chapter => (
+                <li key={chapter.id} className="py-1">
+                  <button onClick={() => onOpenReader(chapter.id!)} className="text-slate-600 dark:text-slate-300 hover:text-primary">
+                    Ch. {chapter.order}: {chapter.title}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+      {visible.length === 0 && (
+        <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 p-8 text-center text-slate-400">
+          Every tracked translation uses the current glossary renderings.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { importBookIntoNovel } from '../services/db';
+import {
+  BUILT_IN_PATTERNS, TEXT_ENCODINGS, compilePattern, decodeText,
+  detectChapterBoundaries, splitTextIntoChapters, suggestPattern
+} from '../services/textSplitter';
+import { X, FileText, Scissors, AlertCircle } from 'lucide-react';
+
+interface Props {
+  novelId: number;
+  onClose: () => void;
+}
+
+// Rendering thousands of rows makes the preview sluggish; the count is still exact
+const PREVIEW_LIMIT = 300;
+
+export const TextImportDialog: React.FC<Props> = ({ novelId, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [encoding, setEncoding] = useState('auto');
+  const [patternId, setPatternId] = useState(BUILT_IN_PATTERNS[0].id);
+  const [customPattern, setCustomPattern] = useState('');
+  const [patternTouched, setPatternTouched] = useState(false); // The user picked or typed a pattern
+  const [isImporting, setIsImporting] = useState(false);
+
+  const decoded = useMemo(() => (buffer ? decodeText(buffer, encoding) : null), [buffer, encoding]);
+
+  // Pick the best matching built-in pattern whenever the text is decoded, until the user chooses one
+  useEffect(() => {
+    if (!decoded || patternTouched) return;
+    const suggested = suggestPattern(decoded.text);
+    if (suggested) setPatternId(suggested.id);
+  }, [decoded, patternTouched]);
+
+  const regex = useMemo(() => {
+    if (patternId === 'custom') return compilePattern(customPattern);
+    const builtIn = BUILT_IN_PATTERNS.find(p => p.id === patternId);
+    return builtIn ? new RegExp(builtIn.source, 'i') : null;
+  }, [patternId, customPattern]);
+
+  const boundaries = useMemo(
+    () => (decoded && regex ? detectChapterBoundaries(decoded.text, regex) : []),
+    [decoded, regex]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFile(selected);
+    // A new file gets its own suggested pattern
+    setPatternTouched(false);
+    setBuffer(await selected.arrayBuffer());
+  };
+
+  const handleImport = async () => {
+    if (!decoded || !regex) return;
+    const chapters = splitTextIntoChapters(decoded.text, regex);
+    if (chapters.length === 0) return;
+    setIsImporting(true);
+    try {
+      await importBookIntoNovel(novelId, { chapters });
+      onClose();
+    } catch (err) {
+      console.error('Text import failed', err);
+      alert('Import failed.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-3xl max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <Scissors size={18} /> Split Text File into Chapters
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Options */}
+        <div className="px-6 py-4 grid grid-cols-1 md:grid-cols-2 gap-4 border-b border-slate-200 dark:border-slate-800">
+          <div className="md:col-span-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300"
+            >
+              <FileText size={18} /> {file ? file.name : 'Choose .txt file'}
+              <input type="file" accept=".txt" ref={fileInputRef} className="hidden" onChange={handleFile} />
+            </button>
+          </div>
+
+          <div>
+            <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">Encoding</label>
+            <select
+              value={encoding}
+              onChange={e => setEncoding(e.target.value)}
+              className="w-full border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200"
+            >
+              {TEXT_ENCODINGS.map(enc => <option key={enc.id} value={enc.id}>{enc.label}</option>)}
+            </select>
+            {decoded && encoding === 'auto' && (
+              <p className="text-xs text-slate-400 mt-1">Detected: {decoded.encoding}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 block">Chapter Heading Pattern</label>
+            <select
+              value={patternId}
+              onChange={e => {
+                setPatternId(e.target.value);
+                setPatternTouched(true);
+              }}
+              className="w-full border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200"
+            >
+              {BUILT_IN_PATTERNS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              <option value="custom">Custom regex...</option>
+            </select>
+            {patternId === 'custom' && (
+              <input
+                type="text"
+                value={customPattern}
+                onChange={e => {
+                  setCustomPattern(e.target.value);
+                  setPatternTouched(true);
+                }}
+                placeholder="^Episode\s+\d+"
+                className={`w-full mt-2 font-mono text-sm border rounded-lg px-3 py-2 bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200
+                  ${customPattern && !regex ? 'border-red-400' : 'border-slate-300 dark:border-slate-700'}
+                `}
+              />
+            )}
+            {patternId === 'custom' && customPattern && !regex && (
+              <p className="text-xs text-red-500 mt-1">Invalid regular expression</p>
+            )}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 overflow-auto px-6 py-4">
+          {!decoded ? (
+            <p className="text-center text-slate-400 py-10">Choose a file to preview detected chapters.</p>
+          ) : boundaries.length === 0 ? (
+            <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400 py-10 justify-center">
+              <AlertCircle size={18} /> No chapter headings matched. The file would be imported as a single chapter.
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">
+                Detected <span className="font-bold text-slate-700 dark:text-slate-200">{boundaries.length}</span> chapters
+              </p>
+              <table className="w-full text-left text-sm">
+                <thead className="text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                  <tr>
+                    <th className="py-2 pr-4">#</th>
+                    <th className="py-2 pr-4">Title</th>
+                    <th className="py-2 pr-4 text-right">Line</th>
+                    <th className="py-2 text-right">Chars</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {boundaries.slice(0, PREVIEW_LIMIT).map((b, i) => (
+                    <tr key={b.line} className={b.length === 0 ? 'text-slate-400 line-through' : 'text-slate-700 dark:text-slate-300'}>
+                      <td className="py-1.5 pr-4 text-slate-400">{i + 1}</td>
+                      <td className="py-1.5 pr-4">{b.title}</td>
+                      <td className="py-1.5 pr-4 text-right font-mono text-xs">{b.line + 1}</td>
+                      <td className="py-1.5 text-right font-mono text-xs">{b.length.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {boundaries.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-slate-400 mt-2">...and {boundaries.length - PREVIEW_LIMIT} more</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!decoded || !regex || isImporting}
+            className="px-4 py-2 bg-primary hover:bg-indigo-600 text-white rounded-lg font-medium disabled:opacity-50"
+          >
+            {isImporting ? 'Importing...' : 'Import Chapters'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import { TranslationSegment } from '../types';
+import { splitParagraphs } from './chunking';
+
+// Paragraph alignment between a chapter and its translation, for the
+// bilingual reader. Paragraphs are non-empty lines, as in chunking. The model
+// is asked to keep the source's paragraph breaks, so equal counts map one to
+// one; otherwise paragraphs are paired by length, allowing merges and splits.
+
+export interface ParagraphRange {
+  start: number; // Offsets in the chapter source, trimmed
+  end: number;
+}
+
+// Ways one step of the alignment may pair source (s) with translated (t) paragraphs
+const BEADS: { s: number; t: number; penalty: number }[] = [
+  { s: 1, t: 1, penalty: 0 },
+  { s: 2, t: 1, penalty: 2 },
+  { s: 1, t: 2, penalty: 2 },
+  { s: 3, t: 1, penalty: 4 },
+  { s: 1, t: 3, penalty: 4 },
+  { s: 1, t: 0, penalty: 6 }, // Source paragraph the model left out
+];
+
+// Cost of pairing `s` source chars with `t` translated chars at the chapter's length ratio
+const lengthCost = (s: number, t: number, ratio: number): number =>
+  Math.abs(t - s * ratio) / Math.sqrt(s * ratio + t + 1);
+
+// Normalized form used to tell whether stored segments still match a text
+const normalize = (text: string): string => splitParagraphs(text).join('\n');
+
+// --- Core Functions ---
+
+// Offsets of the paragraphs of a text: a chapter source or its translation
+export const sourceParagraphs = (text: string): ParagraphRange[] => {
+  const ranges: ParagraphRange[] = [];
+  const line = /[^\n]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = line.exec(text))) {
+    const lead = match[0].length - match[0].trimStart().length;
+    const body = match[0].trim();
+    if (body) ranges.push({ start: match.index + lead, end: match.index + lead + body.length });
+  }
+  return ranges;
+};
+
+/**
+ * Pairs source paragraphs with translated ones. Every source paragraph is
+ * covered exactly once and every translated paragraph is kept, in order.
+ */
+export const alignParagraphs = (source: string[], translated: string[]): TranslationSegment[] => {
+  const n = source.length;
+  const m = translated.length;
+  if (n === 0) return m ? [{ from: 0, to: 0, text: translated.join('\n\n') }] : [];
+  if (n === m) return source.map((_, i) => ({ from: i, to: i + 1, text: translated[i] }));
+
+  const sourceLength = source.reduce((sum, p) => sum + p.length, 0);
+  const ratio = translated.reduce((sum, p) => sum + p.length, 0) / Math.max(1, sourceLength);
+
+  // cost[i][j]: cheapest alignment of the first i source and j translated paragraphs
+  const cost = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(Infinity));
+  const step = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(-1));
+  cost[0][0] = 0;
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= m; j++) {
+      if (cost[i][j] === Infinity) continue;
+      BEADS.forEach((bead, b) => {
+        const ni = i + bead.s;
+        const nj = j + bead.t;
+        if (ni > n || nj > m) return;
+        const s = source.slice(i, ni).reduce((sum, p) => sum + p.length, 0);
+        const t = translated.slice(j, nj).reduce((sum, p) => sum + p.length, 0);
+        const total = cost[i][j] + bead.penalty + lengthCost(s, t, ratio);
+        if (total < cost[ni][nj]) {
+          cost[ni][nj] = total;
+          step[ni][nj] = b;
+        }
+      });
+    }
+  }
+
+  // More translated paragraphs than the beads can absorb: keep it as one block
+  if (cost[n][m] === Infinity) return [{ from: 0, to: n, text: translated.join('\n\n') }];
+
+  const segments: TranslationSegment[] = [];
+  for (let i = n, j = m; i > 0 || j > 0; ) {
+    const bead = BEADS[step[i][j]];
+    segments.unshift({ from: i - bead.s, to: i, text: translated.slice(j - bead.t, j).join('\n\n') });
+    i -= bead.s;
+    j -= bead.t;
+  }
+  return segments;
+};
+
+export const alignTranslation = (content: string, translation: string): TranslationSegment[] =>
+  alignParagraphs(
+    sourceParagraphs(content).map(r => content.slice(r.start, r.end)),
+    splitParagraphs(translation)
+  );
+
+// The translation text of aligned segments; untranslated rows leave no gap
+export const joinSegments = (segments: TranslationSegment[]): string =>
+  segments.map(s => s.text.trim()).filter(Boolean).join('\n\n');
+
+/**
+ * Stored segments while they still describe `translation`, else a fresh
+ * alignment. Rows edited one by one may no longer pair up by length, so the
+ * stored pairing wins as long as the text is the same.
+ */
+export const resolveSegments = (
+  content: string,
+  translation: string,
+  stored?: TranslationSegment[]
+): TranslationSegment[] => {
+  if (!translation.trim()) return [];
+  const paragraphs = sourceParagraphs(content).length;
+  if (
+    stored?.length &&
+    stored[stored.length - 1].to === paragraphs &&
+    normalize(joinSegments(stored)) === normalize(translation)
+  ) {
+    return stored;
+  }
+  return alignTranslation(content, translation);
+};
+
+// The segment that translates source paragraph `paragraph`
+export const segmentFor = (segments: TranslationSegment[], paragraph: number): TranslationSegment | undefined =>
+  segments.find(s => paragraph >= s.from && paragraph < s.to);
+
+/**
+ * Offsets in `translation` of the text aligned to source paragraph
+ * `paragraph`, e.g. to select it in the editor.
+ */
+export const translationRange = (
+  content: string,
+  translation: string,
+  stored: TranslationSegment[] | undefined,
+  paragraph: number
+): ParagraphRange | undefined => {
+  const segments = resolveSegments(content, translation, stored);
+  const segment = segmentFor(segments, paragraph);
+  if (!segment?.text.trim()) return undefined;
+  // Segments keep every translated paragraph in order, so counting them finds the lines
+  const before = segments.slice(0, segments.indexOf(segment)).reduce((n, s) => n + splitParagraphs(s.text).length, 0);
+  const lines = sourceParagraphs(translation);
+  const first = lines[before];
+  const last = lines[before + splitParagraphs(segment.text).length - 1];
+  return first && last ? { start: first.start, end: last.end } : undefined;
+};
@@ -0,0 +1,284 @@
+import { readZip, ZipArchive } from './zip';
+
+export interface ImportedChapter {
+  title: string;
+  content: string;
+}
+
+export interface ImportedBook {
+  title?: string;
+  author?: string;
+  description?: string;
+  coverUrl?: string; // data: URL so it survives reloads
+  chapters: ImportedChapter[];
+}
+
+// A run of text from the document, flagged if it came from a heading
+interface TextBlock {
+  text: string;
+  headingLevel?: number;
+}
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'BLOCKQUOTE', 'PRE', 'LI', 'UL', 'OL', 'TABLE', 'TR',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'FOOTER', 'ASIDE', 'MAIN', 'BODY', 'HR',
+]);
+const SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'NAV', 'SVG', 'HEAD', 'TEMPLATE']);
+
+// --- Helpers ---
+
+/**
+ * Flattens markup into clean paragraphs. Every block-level element and <br>
+ * starts a new paragraph; inline markup (em, span, ruby...) is dropped.
+ */
+const extractBlocks = (root: Element): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+  let buffer = '';
+
+  const flush = (headingLevel?: number) => {
+    const text = buffer.replace(/\s+/g, ' ').trim();
+    if (text) blocks.push(headingLevel ? { text, headingLevel } : { text });
+    buffer = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      buffer += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    const tag = el.tagName.toUpperCase();
+    if (SKIP_TAGS.has(tag)) return;
+    if (tag === 'BR') {
+      flush();
+      return;
+    }
+
+    const heading = /^H([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      el.childNodes.forEach(walk);
+      flush(Number(heading[1]));
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    el.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+
+  walk(root);
+  flush();
+  return blocks;
+};
+
+const parseHtml = (markup: string): Document => new DOMParser().parseFromString(markup, 'text/html');
+
+const parseXml = (markup: string): Document => new DOMParser().parseFromString(markup, 'application/xml');
+
+// Namespace-agnostic lookup (dc:title, opf:item, ...)
+const byTag = (root: Document | Element, localName: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', localName));
+
+const cleanText = (text: string | null | undefined): string | undefined => {
+  const cleaned = (text || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return cleaned || undefined;
+};
+
+// Resolve an href relative to the file that references it, inside the archive
+const resolvePath = (base: string, href: string): string => {
+  const url = new URL(href, `http://epub/${base}`);
+  return decodeURIComponent(url.pathname.slice(1));
+};
+
+const stripFragment = (href: string): string => href.split('#')[0];
+
+const toDataUrl = (data: Uint8Array, mediaType: string): string => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < data.length; i += chunk) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunk));
+  }
+  return `data:${mediaType};base64,${btoa(binary)}`;
+};
+
+const blocksToContent = (blocks: TextBlock[]): string => blocks.map(b => b.text).join('\n\n');
+
+// --- EPUB ---
+
+/**
+ * Reads the table of contents (EPUB 3 nav, falling back to the EPUB 2 NCX)
+ * into a map of document path -> chapter title.
+ */
+const readTocTitles = async (
+  zip: ZipArchive,
+  opfPath: string,
+  navHref?: string,
+  ncxHref?: string
+): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+
+  if (navHref) {
+    const navPath = resolvePath(opfPath, navHref);
+    const navText = await zip.readText(navPath);
+    if (navText) {
+      const doc = parseHtml(navText);
+      const tocNav =
+        Array.from(doc.querySelectorAll('nav')).find(n => (n.getAttribute('epub:type') || '').includes('toc')) ||
+        doc.querySelector('nav');
+      tocNav?.querySelectorAll('a[href]').forEach(a => {
+        const path = resolvePath(navPath, stripFragment(a.getAttribute('href')!));
+        const label = cleanText(a.textContent);
+        if (label && !titles.has(path)) titles.set(path, label);
+      });
+    }
+  }
+
+  if (titles.size === 0 && ncxHref) {
+    const ncxPath = resolvePath(opfPath, ncxHref);
+    const ncxText = await zip.readText(ncxPath);
+    if (ncxText) {
+      byTag(parseXml(ncxText), 'navPoint').forEach(point => {
+        const src = byTag(point, 'content')[0]?.getAttribute('src');
+        const label = cleanText(byTag(point, 'text')[0]?.textContent);
+        if (!src || !label) return;
+        const path = resolvePath(ncxPath, stripFragment(src));
+        if (!titles.has(path)) titles.set(path, label);
+      });
+    }
+  }
+
+  return titles;
+};
+
+/**
+ * Parses an EPUB (2 or 3): chapters follow the spine order, titles come from
+ * the nav/NCX (or the first heading), and the package metadata is returned.
+ */
+export const parseEpub = async (file: Blob): Promise<ImportedBook> => {
+  const zip = await readZip(file);
+
+  const containerXml = await zip.readText('META-INF/container.xml');
+  const opfPath = containerXml && byTag(parseXml(containerXml), 'rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error('EPUB is missing META-INF/container.xml');
+
+  const opfText = await zip.readText(opfPath);
+  if (!opfText) throw new Error(`EPUB package ${opfPath} not found`);
+  const opf = parseXml(opfText);
+
+  const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+  byTag(opf, 'item').forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) return;
+    manifest.set(id, {
+      href,
+      mediaType: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || '',
+    });
+  });
+
+  // Cover: EPUB 3 "cover-image" property, or EPUB 2 <meta name="cover">
+  const coverMetaId = byTag(opf, 'meta').find(m => m.getAttribute('name') === 'cover')?.getAttribute('content');
+  const coverItem =
+    Array.from(manifest.values()).find(i => i.properties.split(/\s+/).includes('cover-image')) ||
+    (coverMetaId ? manifest.get(coverMetaId) : undefined);
+  let coverUrl: string | undefined;
+  if (coverItem && coverItem.mediaType.startsWith('image/')) {
+    const data = await zip.read(resolvePath(opfPath, coverItem.href));
+    if (data) coverUrl = toDataUrl(data, coverItem.mediaType);
+  }
+
+  const spineEl = byTag(opf, 'spine')[0];
+  const navHref = Array.from(manifest.values()).find(i => i.properties.split(/\s+/).includes('nav'))?.href;
+  const ncxId = spineEl?.getAttribute('toc');
+  const ncxHref = (ncxId && manifest.get(ncxId)?.href) ||
+    Array.from(manifest.values()).find(i => i.mediaType === 'application/x-dtbncx+xml')?.href;
+  const tocTitles = await readTocTitles(zip, opfPath, navHref, ncxHref);
+
+  const chapters: ImportedChapter[] = [];
+  for (const itemref of spineEl ? byTag(spineEl, 'itemref') : []) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    if (!item || item.properties.split(/\s+/).includes('nav')) continue;
+
+    const path = resolvePath(opfPath, item.href);
+    const markup = await zip.readText(path);
+    if (!markup) continue;
+    const doc = parseHtml(markup);
+    const blocks = extractBlocks(doc.body);
+    if (blocks.length === 0) continue; // image-only pages (covers, illustrations)
+
+    const firstHeading = blocks.find(b => b.headingLevel);
+    const title = tocTitles.get(path) || firstHeading?.text || cleanText(doc.title) || `Chapter ${chapters.length + 1}`;
+    // Drop the heading that merely repeats the chapter title
+    const body = blocks[0].text === title ? blocks.slice(1) : blocks;
+    if (body.length === 0) continue;
+
+    chapters.push({ title, content: blocksToContent(body) });
+  }
+
+  return {
+    title: cleanText(byTag(opf, 'title')[0]?.textContent),
+    author: cleanText(byTag(opf, 'creator')[0]?.textContent),
+    description: cleanText(byTag(opf, 'description')[0]?.textContent),
+    coverUrl,
+    chapters,
+  };
+};
+
+// --- HTML ---
+
+/**
+ * Splits a saved HTML page into chapters at its headings. The shallowest
+ * heading level that occurs more than once is treated as the chapter level.
+ */
+export const parseHtmlBook = (markup: string, fallbackTitle: string): ImportedBook => {
+  const doc = parseHtml(markup);
+  const blocks = extractBlocks(doc.body);
+  const meta = (name: string) => cleanText(doc.querySelector(`meta[name="${name}"]`)?.getAttribute('content'));
+  const title = cleanText(doc.title) || fallbackTitle;
+
+  let chapterLevel: number | undefined;
+  for (let level = 1; level <= 6; level++) {
+    if (blocks.filter(b => b.headingLevel === level).length > 1) {
+      chapterLevel = level;
+      break;
+    }
+  }
+
+  if (!chapterLevel) {
+    return {
+      title,
+      author: meta('author'),
+      description: meta('description'),
+      chapters: blocks.length ? [{ title, content: blocksToContent(blocks) }] : [],
+    };
+  }
+
+  // Anything before the first chapter heading is page chrome and is dropped
+  const chapters: ImportedChapter[] = [];
+  let current: { title: string; blocks: TextBlock[] } | null = null;
+  for (const block of blocks) {
+    if (block.headingLevel === chapterLevel) {
+      if (current && current.blocks.length) chapters.push({ title: current.title, content: blocksToContent(current.blocks) });
+      current = { title: block.text, blocks: [] };
+    } else if (current) {
+      current.blocks.push(block);
+    }
+  }
+  if (current && current.blocks.length) chapters.push({ title: current.title, content: blocksToContent(current.blocks) });
+
+  return { title, author: meta('author'), description: meta('description'), chapters };
+};
+
+// --- Entry point ---
+
+export const isBookFile = (file: File): boolean => /\.(epub|html?|xhtml)$/i.test(file.name);
+
+export const parseBookFile = async (file: File): Promise<ImportedBook> => {
+  if (/\.epub$/i.test(file.name)) return parseEpub(file);
+  return parseHtmlBook(await file.text(), file.name.replace(/\.[^/.]+$/, ''));
+};
@@ -0,0 +1,80 @@
+import { db } from './db';
+import { CategoryColor, CategoryDefinition, Novel, TermCategory } from '../types';
+
+// Per-novel term categories. Novels without their own list use the built-in
+// ones, so older data and the TermCategory enum keep working unchanged.
+
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { name: TermCategory.PERSON, color: 'blue' },
+  { name: TermCategory.LOCATION, color: 'green' },
+  { name: TermCategory.SKILL, color: 'orange' },
+  { name: TermCategory.ITEM, color: 'slate' },
+  { name: TermCategory.ORGANIZATION, color: 'slate' },
+  { name: TermCategory.OTHER, color: 'slate' },
+];
+
+export const CATEGORY_COLORS: CategoryColor[] = ['blue', 'green', 'orange', 'purple', 'red', 'amber', 'teal', 'pink', 'slate'];
+
+// Full class names so Tailwind picks them up
+const BADGE_CLASSES: Record<CategoryColor, string> = {
+  blue: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200',
+  green: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-200',
+  orange: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-200',
+  purple: 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-200',
+  red: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-200',
+  amber: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-200',
+  teal: 'bg-teal-100 text-teal-700 dark:bg-teal-900/40 dark:text-teal-200',
+  pink: 'bg-pink-100 text-pink-700 dark:bg-pink-900/40 dark:text-pink-200',
+  slate: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+};
+
+export const getCategories = (novel?: Novel): CategoryDefinition[] =>
+  novel?.categories?.length ? novel.categories : DEFAULT_CATEGORIES;
+
+export const getNovelCategories = async (novelId: number): Promise<CategoryDefinition[]> =>
+  getCategories(await db.novels.get(novelId));
+
+// Where terms go when the model or a file names no known category
+export const fallbackCategory = (categories: CategoryDefinition[]): string =>
+  (categories.find(c => c.name === TermCategory.OTHER) || categories[categories.length - 1]).name;
+
+// Exact (case-insensitive) name, then prefix, then the fallback
+export const matchCategory = (value: string | undefined, categories: CategoryDefinition[]): string => {
+  const normalized = (value || '').trim().toLowerCase();
+  return categories.find(c => c.name.toLowerCase() === normalized)?.name
+    || categories.find(c => normalized && c.name.toLowerCase().startsWith(normalized))?.name
+    || fallbackCategory(categories);
+};
+
+// Names for a category select; keeps a current value the list no longer has
+export const categoryOptions = (categories: CategoryDefinition[], current?: string): string[] => {
+  const names = categories.map(c => c.name);
+  return current && !names.includes(current) ? [...names, current] : names;
+};
+
+export const categoryBadgeClass = (name: string, categories: CategoryDefinition[]): string =>
+  BADGE_CLASSES[categories.find(c => c.name === name)?.color || 'slate'];
+
+/**
+ * Replaces a novel's category list. `renames` maps old names to new ones;
+ * the novel's terms and scan candidates follow renames, and those in a removed
+ * category move to the fallback category.
+ */
+export const saveCategories = async (novelId: number, categories: CategoryDefinition[], renames: Record<string, string> = {}) => {
+  const names = new Set(categories.map(c => c.name));
+  const fallback = fallbackCategory(categories);
+  const remap = (category: string) => {
+    const renamed = renames[category] ?? category;
+    return names.has(renamed) ? renamed : fallback;
+  };
+
+  await (db as any).transaction('rw', db.novels, db.glossary, db.scanCandidates, async () => {
+    await db.novels.update(novelId, { categories });
+    await db.glossary.where({ novelId }).modify(term => {
+      term.category = remap(term.category);
+    });
+    await db.scanCandidates.where({ novelId }).modify(candidate => {
+      candidate.category = remap(candidate.category);
+    });
+  });
+};
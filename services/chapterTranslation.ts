@@ -0,0 +1,120 @@
+import { db } from './db';
+import { Chapter, Term } from '../types';
+import { getNovelProvider, TranslateOptions } from './translationProvider';
+import { checkGlossaryCompliance } from './compliance';
+import { classifyError } from './translationErrors';
+import { recordRevision, snapshotTerms } from './revisions';
+import { glossaryFingerprint } from './staleTranslations';
+import { selectRelevantTerms } from './termMatcher';
+import { getEffectiveGlossary } from './sharedGlossaries';
+import { getNovelCategories } from './categories';
+import { getNovelPromptSettings } from './promptTemplates';
+import { alignTranslation } from './alignment';
+import { getPreviousSummaries, getStoryContextSettings, summarizeAndSaveChapter } from './storyContext';
+
+// Translation flows shared by the Reader and the bulk engine: run the model,
+// then persist the result together with its glossary bookkeeping.
+
+/**
+ * Machine-translates a chapter and saves the result, the injected terms and
+ * the compliance check. On failure the chapter is marked 'failed' and the
+ * TranslationError is rethrown.
+ */
+export const translateAndSaveChapter = async (
+  chapter: Chapter,
+  glossary: Term[],
+  options: TranslateOptions = {}
+): Promise<string> => {
+  const provider = await getNovelProvider(chapter.novelId);
+  const story = getStoryContextSettings(await db.novels.get(chapter.novelId));
+  let injected: Term[] = [];
+  let result: string;
+  try {
+    result = await provider.translateChapter(chapter.content, glossary, {
+      categories: await getNovelCategories(chapter.novelId),
+      prompt: await getNovelPromptSettings(chapter.novelId),
+      ...(story.enabled ? { storyContext: await getPreviousSummaries(chapter, story.chapters) } : {}),
+      ...options,
+      onTermsInjected: terms => {
+        injected = terms;
+        options.onTermsInjected?.(terms);
+      }
+    });
+  } catch (e) {
+    // Keep any previous translation; only record why this attempt failed
+    const error = classifyError(e);
+    await db.chapters.update(chapter.id!, {
+      translationStatus: 'failed',
+      lastError: { kind: error.kind, message: error.message, at: new Date() }
+    });
+    throw error;
+  }
+
+  await db.chapters.update(chapter.id!, {
+    translatedContent: result,
+    segments: alignTranslation(chapter.content, result),
+    lastTranslated: new Date(),
+    translationStatus: 'translated',
+    lastError: undefined,
+    injectedTermIds: injected.map(t => t.id!),
+    glossaryVersion: glossaryFingerprint(glossary),
+    termRenderings: snapshotTerms(injected),
+    glossaryViolations: checkGlossaryCompliance(chapter.content, result, glossary)
+  });
+  await recordRevision(chapter, result, 'ai', injected);
+
+  if (story.enabled) {
+    // Without a summary later chapters only lose some context; the translation stands
+    try {
+      await summarizeAndSaveChapter(chapter, result);
+    } catch (e) {
+      console.error('Chapter summary failed', e);
+    }
+  }
+  return result;
+};
+
+/**
+ * Asks the model to fix only the violated terms, then re-checks.
+ * Returns the repaired text (unchanged if there was nothing to repair).
+ */
+export const repairChapterTerms = async (chapter: Chapter, glossary: Term[]): Promise<string> => {
+  const current = chapter.translatedContent || '';
+  const violations = checkGlossaryCompliance(chapter.content, current, glossary);
+  if (!current || violations.length === 0) {
+    await db.chapters.update(chapter.id!, { glossaryViolations: violations });
+    return current;
+  }
+
+  const provider = await getNovelProvider(chapter.novelId);
+  const repaired = await provider.repairTerms(current, violations);
+  const relevant = selectRelevantTerms(chapter.content, glossary);
+  await db.chapters.update(chapter.id!, {
+    translatedContent: repaired,
+    segments: alignTranslation(chapter.content, repaired),
+    glossaryVersion: glossaryFingerprint(glossary),
+    termRenderings: snapshotTerms(relevant),
+    glossaryViolations: checkGlossaryCompliance(chapter.content, repaired, glossary)
+  });
+  await recordRevision(chapter, repaired, 'ai', relevant, 'Glossary repair');
+  return repaired;
+};
+
+/**
+ * Re-runs the compliance check for every translated chapter of a novel,
+ * e.g. after the glossary was edited. Returns the number of failing chapters.
+ */
+export const recheckNovelCompliance = async (novelId: number): Promise<number> => {
+  const glossary = await getEffectiveGlossary(novelId);
+  const chapters = await db.chapters.where({ novelId }).toArray();
+  let failing = 0;
+  await (db as any).transaction('rw', db.chapters, async () => {
+    for (const chapter of chapters) {
+      if (!chapter.translatedContent) continue;
+      const glossaryViolations = checkGlossaryCompliance(chapter.content, chapter.translatedContent, glossary);
+      if (glossaryViolations.length) failing++;
+      await db.chapters.update(chapter.id!, { glossaryViolations });
+    }
+  });
+  return failing;
+};
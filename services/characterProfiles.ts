@@ -0,0 +1,116 @@
+import { db } from './db';
+import { CharacterGender, CharacterProfile, CharacterRelationship, SpeechRegister, Term } from '../types';
+
+// Character profiles on person terms. Many target languages (Arabic above
+// all) inflect verbs and adjectives for the gender and number of every
+// referent, and a character's register decides how their dialogue reads.
+
+export const CHARACTER_GENDERS: { id: CharacterGender; label: string }[] = [
+  { id: 'male', label: 'Male' },
+  { id: 'female', label: 'Female' },
+  { id: 'plural', label: 'Group (plural)' },
+  { id: 'unknown', label: 'Unknown' },
+];
+
+export const SPEECH_REGISTERS: { id: SpeechRegister; label: string }[] = [
+  { id: 'formal', label: 'Formal' },
+  { id: 'casual', label: 'Casual' },
+  { id: 'mixed', label: 'Depends on who they talk to' },
+];
+
+// Built-in "Person" plus common names for custom character categories
+const CHARACTER_CATEGORY = /^(persons?|people|characters?)$/i;
+
+export const isCharacterCategory = (category: string): boolean => CHARACTER_CATEGORY.test(category.trim());
+
+export const isCharacterTerm = (term: Pick<Term, 'category' | 'profile'>): boolean =>
+  isCharacterCategory(term.category) || !!term.profile;
+
+/**
+ * Trims every field and drops empty ones; undefined when nothing is left, so
+ * terms without real information carry no profile at all.
+ */
+export const cleanProfile = (profile?: CharacterProfile): CharacterProfile | undefined => {
+  if (!profile) return undefined;
+  const relationships = (profile.relationships || [])
+    .map(r => ({ name: r.name.trim(), relation: r.relation.trim(), address: r.address?.trim() }))
+    .filter(r => r.name && (r.relation || r.address))
+    .map(r => ({ name: r.name, relation: r.relation, ...(r.address ? { address: r.address } : {}) }));
+  const cleaned: CharacterProfile = {
+    ...(profile.gender && profile.gender !== 'unknown' ? { gender: profile.gender } : {}),
+    ...(profile.register ? { register: profile.register } : {}),
+    ...(profile.addressedAs?.trim() ? { addressedAs: profile.addressedAs.trim() } : {}),
+    ...(relationships.length ? { relationships } : {}),
+  };
+  return Object.keys(cleaned).length ? cleaned : undefined;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Model output is untrusted: unknown enum values and malformed entries are dropped
+export const parseProfile = (raw: unknown): CharacterProfile | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const relationships: CharacterRelationship[] = Array.isArray(raw.relationships)
+    ? raw.relationships.filter(isRecord).flatMap(r =>
+        typeof r.name === 'string'
+          ? [{
+              name: r.name,
+              relation: typeof r.relation === 'string' ? r.relation : '',
+              ...(typeof r.address === 'string' ? { address: r.address } : {}),
+            }]
+          : []
+      )
+    : [];
+  return cleanProfile({
+    gender: CHARACTER_GENDERS.find(g => g.id === raw.gender)?.id,
+    register: SPEECH_REGISTERS.find(r => r.id === raw.register)?.id,
+    addressedAs: typeof raw.addressedAs === 'string' ? raw.addressedAs : undefined,
+    relationships,
+  });
+};
+
+// Fills gaps in `existing` from `incoming`; what is already known wins
+export const mergeProfiles = (existing?: CharacterProfile, incoming?: CharacterProfile): CharacterProfile | undefined => {
+  if (!existing || !incoming) return existing || incoming;
+  const names = new Set((existing.relationships || []).map(r => r.name.trim().toLowerCase()));
+  return cleanProfile({
+    gender: existing.gender || incoming.gender,
+    register: existing.register || incoming.register,
+    addressedAs: existing.addressedAs || incoming.addressedAs,
+    relationships: [
+      ...(existing.relationships || []),
+      ...(incoming.relationships || []).filter(r => !names.has(r.name.trim().toLowerCase())),
+    ],
+  });
+};
+
+// --- Prompt Formatting ---
+
+const REGISTER_TEXT: Record<SpeechRegister, string> = {
+  formal: 'speaks formally',
+  casual: 'speaks casually',
+  mixed: 'register depends on who they talk to',
+};
+
+/**
+ * One line for the glossary entry, e.g.
+ * `female; speaks casually; addressed as "Senior Sister"; Lin Feng: junior brother, calls Lin Feng "Little Feng"`.
+ */
+export const formatProfile = (profile: CharacterProfile): string => {
+  const parts: string[] = [];
+  if (profile.gender === 'plural') parts.push('a group, use plural agreement');
+  else if (profile.gender) parts.push(profile.gender);
+  if (profile.register) parts.push(REGISTER_TEXT[profile.register]);
+  if (profile.addressedAs) parts.push(`addressed as "${profile.addressedAs}"`);
+  for (const r of profile.relationships || []) {
+    parts.push(`${r.name}: ${[r.relation, r.address && `calls ${r.name} "${r.address}"`].filter(Boolean).join(', ')}`);
+  }
+  return parts.join('; ');
+};
+
+// --- Core Functions ---
+
+export const saveProfile = async (termId: number, profile: CharacterProfile | undefined): Promise<void> => {
+  await db.glossary.update(termId, { profile: cleanProfile(profile) });
+};
@@ -0,0 +1,71 @@
+// Splits chapter text into size-bounded segments for translation.
+
+export const DEFAULT_SEGMENT_CHARS = 4000;
+
+// Chars of the previous segment handed to the model as read-only context
+export const CONTEXT_TAIL_CHARS = 600;
+
+export const splitParagraphs = (text: string): string[] =>
+  text
+    .split(/\n\s*\n|\n/)
+    .map(p => p.trim())
+    .filter(Boolean);
+
+// A single paragraph longer than the limit is cut at sentence ends
+const splitLongParagraph = (paragraph: string, maxChars: number): string[] => {
+  // Every character belongs to a sentence, so a leading "..." is kept too
+  const matched = paragraph.match(/[^.!?。！？…]*[.!?。！？…]+["'”’」』]*\s*|[^.!?。！？…]+$/g) || [];
+  // Never drop text: if the sentences do not add up, cut the paragraph by length alone
+  const sentences = matched.join('') === paragraph ? matched : [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    // A "sentence" with no punctuation at all can still be too long
+    if (sentence.length > maxChars) {
+      for (let i = 0; i < sentence.length; i += maxChars) pieces.push(sentence.slice(i, i + maxChars).trim());
+      continue;
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+};
+
+/**
+ * Groups paragraphs into segments of at most `maxChars`, never splitting a
+ * paragraph unless it alone exceeds the limit.
+ */
+export const splitIntoSegments = (text: string, maxChars = DEFAULT_SEGMENT_CHARS): string[] => {
+  const segments: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (current.length) segments.push(current.join('\n\n'));
+    current = [];
+    size = 0;
+  };
+
+  for (const paragraph of splitParagraphs(text)) {
+    const pieces = paragraph.length > maxChars ? splitLongParagraph(paragraph, maxChars) : [paragraph];
+    for (const piece of pieces) {
+      if (size > 0 && size + piece.length + 2 > maxChars) flush();
+      current.push(piece);
+      size += piece.length + 2;
+    }
+  }
+  flush();
+  return segments;
+};
+
+// Last few paragraphs of a segment, trimmed to roughly `maxChars`
+export const tailOf = (text: string, maxChars = CONTEXT_TAIL_CHARS): string => {
+  if (text.length <= maxChars) return text;
+  const tail = text.slice(-maxChars);
+  const breakAt = tail.indexOf('\n');
+  return breakAt >= 0 && breakAt < tail.length - 1 ? tail.slice(breakAt + 1).trim() : tail.trim();
+};
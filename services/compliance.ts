@@ -0,0 +1,40 @@
+import { GlossaryViolation, Term } from '../types';
+import { expectedTranslation, getTermMatcher } from './termMatcher';
+
+// Checks that a translation really uses the glossary renderings for every
+// term that occurs in the source.
+
+// Harakat, tatweel and Quranic marks vary between renderings of the same word
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+
+export const normalizeArabic = (text: string): string =>
+  text
+    .replace(ARABIC_MARKS, '')
+    .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627') // alef variants
+    .replace(/\u0649/g, '\u064A') // alef maqsura -> ya
+    .toLowerCase();
+
+/**
+ * Returns one violation per glossary rendering that is required by a term
+ * (or alias) appearing in `source` but missing from `translation`.
+ */
+export const checkGlossaryCompliance = (source: string, translation: string, glossary: Term[]): GlossaryViolation[] => {
+  // Aliases with their own translation require that rendering instead
+  const required = new Map<string, { term: Term; original: string; expected: string; sourceCount: number }>();
+  for (const m of getTermMatcher(glossary).findMatches(source)) {
+    const expected = expectedTranslation(m.term, m.alias).trim();
+    if (!expected) continue;
+    const key = `${m.term.id}:${expected}`;
+    const entry = required.get(key);
+    if (entry) entry.sourceCount++;
+    else required.set(key, { term: m.term, original: m.alias?.source || m.term.original, expected, sourceCount: 1 });
+  }
+
+  const target = normalizeArabic(translation);
+  const violations: GlossaryViolation[] = [];
+  required.forEach(({ term, original, expected, sourceCount }) => {
+    if (target.includes(normalizeArabic(expected))) return;
+    violations.push({ termId: term.id!, original, expected, sourceCount });
+  });
+  return violations;
+};
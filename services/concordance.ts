@@ -0,0 +1,80 @@
+import { Chapter, Term } from '../types';
+import { expectedTranslation, getTermMatcher } from './termMatcher';
+import { normalizeArabic } from './compliance';
+import { resolveSegments, segmentFor, sourceParagraphs } from './alignment';
+
+// Every occurrence of one glossary term across a novel, with the source
+// context and the sentence of the translation that should render it.
+// Paragraphs are paired through the chapter's aligned segments, as in the
+// bilingual reader.
+
+const CONTEXT_CHARS = 80;
+const SENTENCE_END = /(?<=[.!?؟。！？…])\s+/;
+
+export interface ConcordanceLine {
+  start: number; // Offsets of the occurrence in the chapter source
+  end: number;
+  paragraph: number;
+  before: string;
+  match: string;
+  after: string;
+  expected: string; // The required rendering for this surface form
+  translated?: string; // Sentence (or paragraph) of the aligned translated paragraph
+  rendered: boolean; // The aligned paragraph contains the required rendering
+}
+
+export interface ConcordanceChapter {
+  chapterId: number;
+  title: string;
+  order: number;
+  lines: ConcordanceLine[];
+}
+
+// The sentence containing the rendering, else the whole paragraph
+const pickSentence = (paragraph: string, expected: string): string => {
+  const target = normalizeArabic(expected);
+  return paragraph.split(SENTENCE_END).find(s => normalizeArabic(s).includes(target)) || paragraph;
+};
+
+// --- Core Functions ---
+
+/**
+ * Lists the occurrences of `term` in every chapter, in chapter order.
+ * Matching uses the whole glossary so a longer term shadows this one exactly
+ * as it does when translating.
+ */
+export const buildConcordance = (term: Term, chapters: Chapter[], glossary: Term[]): ConcordanceChapter[] => {
+  const matcher = getTermMatcher(glossary);
+  const result: ConcordanceChapter[] = [];
+
+  for (const chapter of [...chapters].sort((a, b) => a.order - b.order)) {
+    const matches = matcher.findMatches(chapter.content).filter(m => m.term.id === term.id);
+    if (matches.length === 0) continue;
+
+    const paragraphs = sourceParagraphs(chapter.content);
+    const segments = resolveSegments(chapter.content, chapter.translatedContent || '', chapter.segments);
+
+    result.push({
+      chapterId: chapter.id!,
+      title: chapter.title,
+      order: chapter.order,
+      lines: matches.map(m => {
+        const paragraph = Math.max(0, paragraphs.findIndex(r => m.start >= r.start && m.start < r.end));
+        const expected = expectedTranslation(m.term, m.alias).trim();
+        const aligned = segmentFor(segments, paragraph)?.text.trim();
+        return {
+          start: m.start,
+          end: m.end,
+          paragraph,
+          before: chapter.content.slice(Math.max(0, m.start - CONTEXT_CHARS), m.start).replace(/\s+/g, ' '),
+          match: chapter.content.slice(m.start, m.end),
+          after: chapter.content.slice(m.end, m.end + CONTEXT_CHARS).replace(/\s+/g, ' '),
+          expected,
+          translated: aligned ? pickSentence(aligned, expected) : undefined,
+          rendered: !!aligned && normalizeArabic(aligned).includes(normalizeArabic(expected)),
+        };
+      }),
+    });
+  }
+  return result;
+};
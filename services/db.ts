@@ -1,10 +1,22 @@
 import Dexie, { Table } from 'dexie';
-import { Novel, Chapter, Term } from '../types';
+import { Novel, Chapter, Term, TranslationJob, ChapterRevision, TermCandidate, SharedGlossary, PromptVersion } from '../types';
+import { ImportedBook } from './bookImport';
+
+// Texts older builds saved in place of a translation when the request failed
+const LEGACY_ERROR_TEXTS = new Set([
+  'Error generating translation. Please check API Key or quota.',
+  'Translation failed.'
+]);
 
 export class WebNovelDB extends Dexie {
   novels!: Table<Novel, number>;
   chapters!: Table<Chapter, number>;
   glossary!: Table<Term, number>;
+  jobs!: Table<TranslationJob, number>;
+  revisions!: Table<ChapterRevision, number>;
+  scanCandidates!: Table<TermCandidate, number>;
+  sharedGlossaries!: Table<SharedGlossary, number>;
+  promptVersions!: Table<PromptVersion, number>;
 
   constructor() {
     super('WebNovelDB');
@@ -14,13 +26,68 @@ export class WebNovelDB extends Dexie {
       chapters: '++id, novelId, order, title', // compound index could be [novelId+order]
       glossary: '++id, novelId, original, category'
     });
+    (this as any).version(2).stores({
+      jobs: '++id, novelId, chapterId, status'
+    });
+    // Older builds saved the error message itself as the translation
+    (this as any).version(3).stores({}).upgrade((tx: any) =>
+      tx.table('chapters').toCollection().modify((chapter: Chapter) => {
+        if (chapter.translatedContent && LEGACY_ERROR_TEXTS.has(chapter.translatedContent.trim())) {
+          const message = chapter.translatedContent.trim();
+          delete chapter.translatedContent;
+          chapter.translationStatus = 'failed';
+          chapter.lastError = { kind: 'unknown', message, at: chapter.lastTranslated || new Date() };
+        } else if (chapter.translatedContent) {
+          chapter.translationStatus = 'translated';
+        }
+      })
+    );
+    // Translations that predate revision history become their first revision
+    (this as any).version(4).stores({
+      revisions: '++id, novelId, chapterId'
+    }).upgrade(async (tx: any) => {
+      const chapters: Chapter[] = await tx.table('chapters').toArray();
+      await tx.table('revisions').bulkAdd(
+        chapters
+          .filter(c => c.translatedContent)
+          .map(c => ({
+            novelId: c.novelId,
+            chapterId: c.id,
+            content: c.translatedContent,
+            source: 'import',
+            glossary: [],
+            note: 'Saved before revision history',
+            createdAt: c.lastTranslated || new Date()
+          }))
+      );
+    });
+    (this as any).version(5).stores({
+      scanCandidates: '++id, novelId, [novelId+key]'
+    });
+    // Deep Scan results wait for review instead of going straight into the glossary
+    (this as any).version(6).stores({
+      scanCandidates: '++id, novelId, [novelId+key], [novelId+status]'
+    }).upgrade((tx: any) =>
+      tx.table('scanCandidates').toCollection().modify((candidate: TermCandidate) => {
+        candidate.status = 'pending';
+      })
+    );
+    // Glossaries shared between novels; their terms live in the glossary table
+    (this as any).version(7).stores({
+      glossary: '++id, novelId, original, category, sharedGlossaryId',
+      sharedGlossaries: '++id, name'
+    });
+    // History of each novel's style guide and prompt template
+    (this as any).version(8).stores({
+      promptVersions: '++id, novelId, [novelId+version]'
+    });
   }
 }
 
 export const db = new WebNovelDB();
 
 // Helper to bulk add chapters efficiently
-export const bulkAddChapters = async (novelId: number, files: FileList) => {
+export const bulkAddChapters = async (novelId: number, files: FileList | File[]) => {
   const chapters: Omit<Chapter, 'id'>[] = [];
   
   // Sort files by name loosely to try and get order (optimistic)
@@ -40,4 +107,43 @@ export const bulkAddChapters = async (novelId: number, files: FileList) => {
   }
   
   await db.chapters.bulkAdd(chapters);
-};
\ No newline at end of file
+};
+
+// Helper to import a parsed EPUB/HTML book into an existing novel.
+// Chapters are appended after the current last chapter; novel metadata is
+// only filled in where the user has not set it already.
+export const importBookIntoNovel = async (novelId: number, book: ImportedBook) => {
+  await (db as any).transaction('rw', db.novels, db.chapters, async () => {
+    const novel = await db.novels.get(novelId);
+    if (!novel) throw new Error(`Novel ${novelId} not found`);
+
+    const existing = await db.chapters.where({ novelId }).toArray();
+    const startOrder = existing.reduce((max, c) => Math.max(max, c.order), 0);
+
+    await db.chapters.bulkAdd(book.chapters.map((c, i) => ({
+      novelId,
+      title: c.title,
+      order: startOrder + i + 1,
+      content: c.content,
+    })));
+
+    const updates: Partial<Novel> = {};
+    if (!novel.author && book.author) updates.author = book.author;
+    if (!novel.coverUrl && book.coverUrl) updates.coverUrl = book.coverUrl;
+    if (!novel.description && book.description) updates.description = book.description;
+    if (Object.keys(updates).length) await db.novels.update(novelId, updates);
+  });
+};
+
+// Helper to create a brand new novel from a parsed EPUB/HTML book
+export const createNovelFromBook = async (book: ImportedBook, fallbackTitle: string): Promise<number> => {
+  const novelId = await db.novels.add({
+    title: book.title || fallbackTitle,
+    author: book.author,
+    coverUrl: book.coverUrl,
+    description: book.description,
+    createdAt: new Date(),
+  });
+  await importBookIntoNovel(novelId as number, book);
+  return novelId as number;
+};
@@ -0,0 +1,272 @@
+import { db } from './db';
+import { CategoryDefinition, Chapter, DeepScanMode, Term, TermCandidate } from '../types';
+import { getNovelProvider } from './translationProvider';
+import { splitIntoSegments, tailOf } from './chunking';
+import { buildTermMatcher, surfaceKeys } from './termMatcher';
+import { getEffectiveGlossary } from './sharedGlossaries';
+import { getCategories, matchCategory } from './categories';
+import { isCharacterCategory, mergeProfiles } from './characterProfiles';
+
+// Full-novel Deep Scan. Every chapter (or only the ones added since the last
+// scan) is sent to the model in windows of consecutive chapters. Candidates
+// are merged in Dexie and each chapter is stamped once its window is done, so
+// a stopped or crashed scan resumes where it left off. The result is a set of
+// proposals for the review queue (see glossaryReview.ts); the glossary itself
+// is never written to, so locked terms cannot be overwritten or duplicated.
+
+const WINDOW_CHARS = 20000;
+// Tail of the previous window repeated at the start of the next, so names
+// split across a window boundary are still seen whole
+const WINDOW_OVERLAP_CHARS = 500;
+const CONTEXT_CHARS = 100;
+// Terms per batch translation request
+const TERM_BATCH_SIZE = 40;
+
+export type DeepScanPhase = 'extracting' | 'counting' | 'translating' | 'searching';
+
+export interface DeepScanProgress {
+  phase: DeepScanPhase;
+  done: number;
+  total: number;
+  candidates: number;
+}
+
+export interface DeepScanOptions {
+  onProgress?: (progress: DeepScanProgress) => void;
+  shouldStop?: () => boolean;
+}
+
+interface ScanWindow {
+  text: string;
+  chapters: Chapter[]; // Chapters whose text is in this window
+  completes: Chapter[]; // Chapters fully scanned once this window is done
+}
+
+// --- Helpers ---
+
+const termKey = (original: string) => original.trim().toLowerCase();
+
+const buildWindows = (chapters: Chapter[]): ScanWindow[] => {
+  const windows: ScanWindow[] = [];
+  let current: Chapter[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    windows.push({ text: current.map(c => c.content).join('\n\n'), chapters: current, completes: current });
+    current = [];
+    size = 0;
+  };
+
+  for (const chapter of chapters) {
+    if (chapter.content.length > WINDOW_CHARS) {
+      // Long chapters get windows of their own, split on paragraph boundaries
+      flush();
+      const parts = splitIntoSegments(chapter.content, WINDOW_CHARS);
+      parts.forEach((text, i) => windows.push({
+        text,
+        chapters: [chapter],
+        completes: i === parts.length - 1 ? [chapter] : []
+      }));
+      continue;
+    }
+    if (size + chapter.content.length > WINDOW_CHARS) flush();
+    current.push(chapter);
+    size += chapter.content.length;
+  }
+  flush();
+  return windows;
+};
+
+// Chapters the current scan still has to cover
+const pendingChapters = (chapters: Chapter[], mode: DeepScanMode, startedAt: Date): Chapter[] =>
+  chapters.filter(c => !c.scannedAt || (mode === 'all' && c.scannedAt < startedAt));
+
+const snippetAround = (text: string, original: string): string => {
+  const at = text.toLowerCase().indexOf(original.toLowerCase());
+  return at >= 0 ? text.slice(at, at + CONTEXT_CHARS) : '';
+};
+
+// Merges one window's extraction result into the stored candidates
+const mergeCandidates = async (
+  novelId: number,
+  window: ScanWindow,
+  extracted: Partial<Term>[],
+  known: Set<string>,
+  categories: CategoryDefinition[]
+) => {
+  await (db as any).transaction('rw', db.scanCandidates, async () => {
+    for (const term of extracted) {
+      if (!term.original?.trim()) continue;
+      const key = termKey(term.original);
+      if (known.has(key)) continue;
+
+      const firstChapter = window.chapters.find(c => c.content.toLowerCase().includes(key)) || window.chapters[0];
+      const existing = await db.scanCandidates.where({ novelId, key }).first();
+      if (existing) {
+        // Later windows can add what earlier ones did not show, e.g. a relationship
+        const profile = isCharacterCategory(existing.category) ? mergeProfiles(existing.profile, term.profile) : existing.profile;
+        if (firstChapter.order < existing.firstSeenOrder || profile !== existing.profile) {
+          await db.scanCandidates.update(existing.id!, {
+            ...(firstChapter.order < existing.firstSeenOrder ? {
+              firstSeenOrder: firstChapter.order,
+              context: snippetAround(firstChapter.content, term.original) || existing.context
+            } : {}),
+            profile
+          });
+        }
+        continue;
+      }
+      const category = matchCategory(term.category, categories);
+      await db.scanCandidates.add({
+        novelId,
+        key,
+        original: term.original.trim(),
+        category,
+        ...(term.profile && isCharacterCategory(category) ? { profile: term.profile } : {}),
+        occurrences: 0,
+        firstSeenOrder: firstChapter.order,
+        context: snippetAround(firstChapter.content, term.original) || snippetAround(window.text, term.original),
+        status: 'pending'
+      });
+    }
+  });
+};
+
+/**
+ * Counts every glossary term and candidate across all chapters in one pass
+ * and stores the occurrence count and first chapter on each.
+ */
+const countOccurrences = async (chapters: Chapter[], glossary: Term[], candidates: TermCandidate[]) => {
+  // Candidates are matched as stand-in terms and mapped back by identity
+  const standIns = candidates.map(c => ({
+    novelId: c.novelId, original: c.original, translation: '', category: c.category, isLocked: false
+  }));
+  const candidateOf = new Map<Term, TermCandidate>(standIns.map((t, i) => [t, candidates[i]]));
+  const matcher = buildTermMatcher([...glossary, ...standIns]);
+
+  const counts = new Map<Term, { occurrences: number; firstSeenOrder?: number }>();
+  for (const chapter of [...chapters].sort((a, b) => a.order - b.order)) {
+    for (const { term } of matcher.findMatches(chapter.content)) {
+      const entry = counts.get(term) || { occurrences: 0, firstSeenOrder: chapter.order };
+      entry.occurrences++;
+      counts.set(term, entry);
+    }
+  }
+
+  await (db as any).transaction('rw', db.glossary, db.scanCandidates, async () => {
+    for (const term of glossary) {
+      const entry = counts.get(term);
+      await db.glossary.update(term.id!, { occurrences: entry?.occurrences || 0, firstSeenOrder: entry?.firstSeenOrder });
+    }
+    for (const standIn of standIns) {
+      const candidate = candidateOf.get(standIn)!;
+      const entry = counts.get(standIn);
+      await db.scanCandidates.update(candidate.id!, {
+        occurrences: entry?.occurrences || 0,
+        firstSeenOrder: entry?.firstSeenOrder ?? candidate.firstSeenOrder
+      });
+    }
+  });
+};
+
+// --- Core Functions ---
+
+/**
+ * Begins a new scan. Untranslated candidates left over from an unfinished
+ * scan are dropped; proposals awaiting review are kept.
+ */
+export const startDeepScan = async (novelId: number, mode: DeepScanMode, searchPass = false) => {
+  await (db as any).transaction('rw', db.novels, db.scanCandidates, async () => {
+    await db.scanCandidates.where({ novelId, status: 'pending' }).delete();
+    await db.novels.update(novelId, { deepScan: { mode, startedAt: new Date(), searchPass } });
+  });
+};
+
+/**
+ * Runs (or resumes) the scan recorded on the novel. Returns false when it
+ * was stopped before finishing; errors propagate and leave the scan resumable.
+ */
+export const runDeepScan = async (novelId: number, options: DeepScanOptions = {}): Promise<boolean> => {
+  const novel = await db.novels.get(novelId);
+  if (!novel?.deepScan) return true;
+  const { mode, startedAt, searchPass } = novel.deepScan;
+  const provider = await getNovelProvider(novelId);
+  const categories = getCategories(novel);
+  const candidateCount = () => db.scanCandidates.where({ novelId, status: 'pending' }).count();
+
+  // 1. EXTRACT: one model call per window
+  const chapters = await db.chapters.where({ novelId }).sortBy('order');
+  const windows = buildWindows(pendingChapters(chapters, mode, startedAt));
+  // Aliases and inherited shared terms count as known, so a scan does not propose "Young Master Lin" again
+  const known = new Set((await getEffectiveGlossary(novelId)).flatMap(surfaceKeys));
+  let previous = '';
+
+  for (let i = 0; i < windows.length; i++) {
+    if (options.shouldStop?.()) return false;
+    options.onProgress?.({ phase: 'extracting', done: i, total: windows.length, candidates: await candidateCount() });
+    const window = windows[i];
+    const text = previous ? `${tailOf(previous, WINDOW_OVERLAP_CHARS)}\n\n${window.text}` : window.text;
+    const extracted = await provider.extractTerms(text, categories);
+    await mergeCandidates(novelId, window, extracted, known, categories);
+    const scannedAt = new Date();
+    for (const chapter of window.completes) await db.chapters.update(chapter.id!, { scannedAt });
+    previous = window.text;
+  }
+
+  // 2. COUNT: exact occurrences over the whole novel, new chapters included
+  options.onProgress?.({ phase: 'counting', done: 0, total: 1, candidates: await candidateCount() });
+  // Only the novel's own terms: counts on shared terms would differ per novel
+  const glossary = await db.glossary.where({ novelId }).toArray();
+  await countOccurrences(chapters, glossary, await db.scanCandidates.where({ novelId }).filter(c => c.status !== 'rejected').toArray());
+
+  // 3. TRANSLATE: batches of terms, most frequent first; terms that never literally occur are dropped.
+  // Results become proposals for review; nothing is written to the glossary here.
+  const pending = () => db.scanCandidates.where({ novelId, status: 'pending' });
+  await pending().filter(c => c.occurrences === 0).delete();
+  const candidates = (await pending().toArray()).sort((a, b) => b.occurrences - a.occurrences);
+  for (let i = 0; i < candidates.length; i += TERM_BATCH_SIZE) {
+    if (options.shouldStop?.()) return false;
+    options.onProgress?.({ phase: 'translating', done: i, total: candidates.length, candidates: candidates.length });
+    const batch = candidates.slice(i, i + TERM_BATCH_SIZE);
+    const results = await provider.translateTerms(
+      batch.map(c => ({ original: c.original, category: c.category, context: c.context })),
+      categories
+    );
+    const resultFor = new Map(results.map(r => [r.original, r]));
+
+    const proposals: TermCandidate[] = [];
+    for (const candidate of batch) {
+      const result = resultFor.get(candidate.original);
+      // The model occasionally skips an entry; those get a single request.
+      // If that fails too the proposal stays without a translation for review.
+      const translation = result?.translation ?? await provider.translateTerm(candidate.original, candidate.context);
+      proposals.push({
+        ...candidate,
+        status: 'proposed',
+        ...(translation ? { translation } : {}),
+        confidence: result?.confidence ?? 'low',
+        needsLookup: !result || result.confidence === 'low' || result.famous
+      });
+    }
+    await db.scanCandidates.bulkPut(proposals);
+  }
+
+  // 4. SEARCH PASS (opt-in): flagged proposals get a search-grounded lookup each
+  if (searchPass && provider.supportsSearch) {
+    const flagged = await db.scanCandidates.where({ novelId, status: 'proposed' }).filter(c => !!c.needsLookup).toArray();
+    for (let i = 0; i < flagged.length; i++) {
+      if (options.shouldStop?.()) return false;
+      options.onProgress?.({ phase: 'searching', done: i, total: flagged.length, candidates: flagged.length });
+      const candidate = flagged[i];
+      const translation = await provider.translateTerm(candidate.original, candidate.context);
+      // A failed lookup keeps the batch proposal and its flag
+      if (translation) await db.scanCandidates.update(candidate.id!, { translation, needsLookup: false });
+    }
+  }
+
+  await db.novels.update(novelId, { deepScan: undefined });
+  return true;
+};
+
+export const countUnscannedChapters = (chapters: Chapter[]): number => chapters.filter(c => !c.scannedAt).length;
@@ -0,0 +1,207 @@
+import { Chapter, Language, Novel } from '../types';
+import { createZip, ZipEntry } from './zip';
+import { getLanguages } from './languages';
+
+export interface EpubExportOptions {
+  // What to do with chapters that have no translatedContent yet
+  untranslated: 'skip' | 'placeholder';
+  placeholderText?: string;
+}
+
+// Book chrome in the target language; English for languages not listed
+const BOOK_TEXT: Record<string, { contents: string; untranslated: string }> = {
+  ar: { contents: 'المحتويات', untranslated: 'لم تتم ترجمة هذا الفصل بعد.' },
+  en: { contents: 'Contents', untranslated: 'This chapter has not been translated yet.' },
+  fr: { contents: 'Table des matières', untranslated: "Ce chapitre n'a pas encore été traduit." },
+  es: { contents: 'Índice', untranslated: 'Este capítulo aún no se ha traducido.' },
+  id: { contents: 'Daftar Isi', untranslated: 'Bab ini belum diterjemahkan.' },
+};
+
+// --- Helpers ---
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const textToParagraphs = (text: string): string =>
+  text
+    .split(/\n+/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(p => `    <p>${escapeXml(p)}</p>`)
+    .join('\n');
+
+const xhtmlPage = (language: Language, title: string, body: string, extraHead = ''): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language.code}" lang="${language.code}" dir="${language.dir}">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(title)}</title>
+    <link rel="stylesheet" type="text/css" href="styles.css"/>${extraHead}
+  </head>
+  <body dir="${language.dir}">
+${body}
+  </body>
+</html>`;
+
+const stylesFor = (language: Language): string => `body { direction: ${language.dir}; text-align: ${language.dir === 'rtl' ? 'right' : 'left'}; font-family: ${language.fontClass === 'font-arabic' ? '"Amiri", ' : ''}serif; line-height: 1.8; }
+h1 { text-align: center; margin: 1em 0; }
+p { text-indent: 1.5em; margin: 0 0 0.6em 0; }
+p.placeholder { text-align: center; font-style: italic; opacity: 0.6; }
+nav ol { list-style: none; padding: 0; }
+img.cover { display: block; max-width: 100%; max-height: 100%; margin: 0 auto; }`;
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+const IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// Cover URLs can be remote or data: URLs. A cover that fails to load is
+// dropped rather than failing the whole export.
+const loadCover = async (url: string): Promise<{ data: Uint8Array; mediaType: string; ext: string } | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const ext = IMAGE_TYPES[blob.type];
+    if (!ext) return null;
+    return { data: new Uint8Array(await blob.arrayBuffer()), mediaType: blob.type, ext };
+  } catch (error) {
+    console.error('Cover fetch error:', error);
+    return null;
+  }
+};
+
+// --- Core Functions ---
+
+/**
+ * Builds an EPUB 3 book in the novel's target language (with its text
+ * direction) from the translated chapters. The table of contents follows
+ * Chapter.order.
+ */
+export const buildEpub = async (
+  novel: Novel,
+  chapters: Chapter[],
+  options: EpubExportOptions
+): Promise<Blob> => {
+  const language = getLanguages(novel).target;
+  const bookText = BOOK_TEXT[language.code] || BOOK_TEXT.en;
+  const placeholder = options.placeholderText || bookText.untranslated;
+  const included = [...chapters]
+    .sort((a, b) => a.order - b.order)
+    .filter(c => c.translatedContent || options.untranslated === 'placeholder');
+
+  const files: ZipEntry[] = [];
+  const manifest: string[] = [];
+  const spine: string[] = [];
+  const navItems: string[] = [];
+  const ncxPoints: string[] = [];
+
+  // Cover
+  const cover = novel.coverUrl ? await loadCover(novel.coverUrl) : null;
+  if (cover) {
+    files.push({ path: `OEBPS/cover.${cover.ext}`, data: cover.data });
+    files.push({
+      path: 'OEBPS/cover.xhtml',
+      data: xhtmlPage(language, novel.title, `    <img class="cover" src="cover.${cover.ext}" alt="${escapeXml(novel.title)}"/>`),
+    });
+    manifest.push(`    <item id="cover-image" href="cover.${cover.ext}" media-type="${cover.mediaType}" properties="cover-image"/>`);
+    manifest.push(`    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>`);
+    spine.push(`    <itemref idref="cover" linear="no"/>`);
+  }
+
+  // Chapters
+  included.forEach((chapter, index) => {
+    const id = `chapter-${String(index + 1).padStart(4, '0')}`;
+    const href = `${id}.xhtml`;
+    const body = chapter.translatedContent
+      ? textToParagraphs(chapter.translatedContent)
+      : `    <p class="placeholder">${escapeXml(placeholder)}</p>`;
+
+    files.push({
+      path: `OEBPS/${href}`,
+      data: xhtmlPage(language, chapter.title, `    <h1>${escapeXml(chapter.title)}</h1>\n${body}`),
+    });
+    manifest.push(`    <item id="${id}" href="${href}" media-type="application/xhtml+xml"/>`);
+    spine.push(`    <itemref idref="${id}"/>`);
+    navItems.push(`        <li><a href="${href}">${escapeXml(chapter.title)}</a></li>`);
+    ncxPoints.push(`    <navPoint id="nav-${id}" playOrder="${index + 1}">
+      <navLabel><text>${escapeXml(chapter.title)}</text></navLabel>
+      <content src="${href}"/>
+    </navPoint>`);
+  });
+
+  const bookId = `urn:uuid:${crypto.randomUUID()}`;
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const nav = xhtmlPage(
+    language,
+    novel.title,
+    `    <nav epub:type="toc" id="toc">
+      <h1>${bookText.contents}</h1>
+      <ol>
+${navItems.join('\n')}
+      </ol>
+    </nav>`
+  );
+
+  // NCX is EPUB 2 legacy, but many e-readers still rely on it for the TOC
+  const ncx = `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${language.code}">
+  <head>
+    <meta name="dtb:uid" content="${bookId}"/>
+  </head>
+  <docTitle><text>${escapeXml(novel.title)}</text></docTitle>
+  <navMap>
+${ncxPoints.join('\n')}
+  </navMap>
+</ncx>`;
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language.code}" dir="${language.dir}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${bookId}</dc:identifier>
+    <dc:title>${escapeXml(novel.title)}</dc:title>
+    <dc:language>${language.code}</dc:language>${novel.author ? `
+    <dc:creator>${escapeXml(novel.author)}</dc:creator>` : ''}${novel.description ? `
+    <dc:description>${escapeXml(novel.description)}</dc:description>` : ''}
+    <meta property="dcterms:modified">${modified}</meta>${cover ? `
+    <meta name="cover" content="cover-image"/>` : ''}
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="styles" href="styles.css" media-type="text/css"/>
+${manifest.join('\n')}
+  </manifest>
+  <spine toc="ncx" page-progression-direction="${language.dir}">
+${spine.join('\n')}
+  </spine>
+</package>`;
+
+  return createZip(
+    [
+      { path: 'mimetype', data: 'application/epub+zip' },
+      { path: 'META-INF/container.xml', data: CONTAINER_XML },
+      { path: 'OEBPS/content.opf', data: opf },
+      { path: 'OEBPS/nav.xhtml', data: nav },
+      { path: 'OEBPS/toc.ncx', data: ncx },
+      { path: 'OEBPS/styles.css', data: stylesFor(language) },
+      ...files,
+    ],
+    'application/epub+zip'
+  );
+};
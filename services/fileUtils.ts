@@ -0,0 +1,17 @@
+// Browser file helpers shared by the import/export features.
+
+/**
+ * Triggers a browser download for an in-memory blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Strip characters that are invalid in file names on common platforms
+export const safeFileName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'untitled';
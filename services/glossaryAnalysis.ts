@@ -0,0 +1,134 @@
+import { db } from './db';
+import { Term, TermAlias } from '../types';
+import { buildTermMatcher, surfaceKeys } from './termMatcher';
+import { normalizeArabic } from './compliance';
+
+// Finds glossary entries that contradict or shadow each other:
+// 1. DUPLICATE: two terms share an original or alias (conflicting if their translations differ)
+// 2. SHARED TRANSLATION: different originals rendered identically, often the same entity twice
+// 3. OVERLAP: a short term inside a longer one ("Lin" in "Young Master Lin")
+
+export type GlossaryIssueKind = 'duplicate' | 'shared-translation' | 'overlap';
+
+export interface GlossaryIssue {
+  id: string; // Stable across runs, used to dismiss an issue
+  kind: GlossaryIssueKind;
+  terms: Term[]; // For overlaps: [shorter, longer]
+  detail: string; // The shared key or rendering, or the contained text
+  conflicting?: boolean; // Duplicates whose translations disagree
+}
+
+const issueId = (kind: GlossaryIssueKind, terms: Term[]) =>
+  `${kind}:${terms.map(t => t.id).sort((a, b) => a! - b!).join(',')}`;
+
+// Groups terms by a key, keeping only groups of two or more
+const groupBy = (terms: Term[], keysOf: (t: Term) => string[]): Map<string, Term[]> => {
+  const groups = new Map<string, Term[]>();
+  for (const term of terms) {
+    for (const key of new Set(keysOf(term))) {
+      if (!key) continue;
+      const group = groups.get(key) || [];
+      group.push(term);
+      groups.set(key, group);
+    }
+  }
+  groups.forEach((group, key) => {
+    if (group.length < 2) groups.delete(key);
+  });
+  return groups;
+};
+
+// --- Core Functions ---
+
+export const analyzeGlossary = (terms: Term[], dismissed: string[] = []): GlossaryIssue[] => {
+  const issues: GlossaryIssue[] = [];
+  const seen = new Set(dismissed);
+  const push = (issue: GlossaryIssue) => {
+    if (seen.has(issue.id)) return;
+    seen.add(issue.id);
+    issues.push(issue);
+  };
+
+  groupBy(terms, surfaceKeys).forEach((group, key) => {
+    const renderings = new Set(group.map(t => normalizeArabic(t.translation.trim())));
+    push({ id: issueId('duplicate', group), kind: 'duplicate', terms: group, detail: key, conflicting: renderings.size > 1 });
+  });
+
+  groupBy(terms, t => [normalizeArabic(t.translation.trim())]).forEach(group => {
+    // Already reported as a duplicate when they also share an original
+    if (new Set(group.map(t => t.original.trim().toLowerCase())).size < 2) return;
+    push({ id: issueId('shared-translation', group), kind: 'shared-translation', terms: group, detail: group[0].translation });
+  });
+
+  // Every shorter surface form found inside a longer original
+  const matcher = buildTermMatcher(terms);
+  for (const longer of terms) {
+    for (const m of matcher.findAllMatches(longer.original)) {
+      if (m.term === longer || m.end - m.start >= longer.original.length) continue;
+      push({
+        id: issueId('overlap', [m.term, longer]),
+        kind: 'overlap',
+        terms: [m.term, longer],
+        detail: longer.original.slice(m.start, m.end)
+      });
+    }
+  }
+  return issues;
+};
+
+/**
+ * Folds `otherIds` into `keepId`: their originals and aliases become aliases
+ * of the kept term (with their own translation where it differs), notes are
+ * joined, and the kept term is locked if any of them was.
+ */
+export const mergeTerms = async (keepId: number, otherIds: number[]) => {
+  await (db as any).transaction('rw', db.glossary, async () => {
+    const keep = await db.glossary.get(keepId);
+    if (!keep) return;
+    const others = (await db.glossary.bulkGet(otherIds)).filter((t): t is Term => !!t && t.id !== keepId);
+
+    const aliases: TermAlias[] = [...(keep.aliases || [])];
+    const known = new Set(surfaceKeys(keep));
+    const addAlias = (source: string, translation: string) => {
+      const key = source.trim().toLowerCase();
+      if (!key || known.has(key)) return;
+      known.add(key);
+      aliases.push(translation.trim() && translation.trim() !== keep.translation.trim()
+        ? { source: source.trim(), translation: translation.trim() }
+        : { source: source.trim() });
+    };
+    for (const other of others) {
+      addAlias(other.original, other.translation);
+      (other.aliases || []).forEach(a => addAlias(a.source, a.translation || other.translation));
+    }
+
+    const notes = [keep.notes, ...others.map(o => o.notes)].filter(Boolean);
+    await db.glossary.update(keepId, {
+      aliases,
+      isLocked: keep.isLocked || others.some(o => o.isLocked),
+      occurrences: Math.max(keep.occurrences || 0, ...others.map(o => o.occurrences || 0)) || keep.occurrences,
+      ...(notes.length ? { notes: Array.from(new Set(notes)).join(' / ') } : {})
+    });
+    await db.glossary.bulkDelete(others.map(o => o.id!));
+  });
+};
+
+export const dismissIssue = async (novelId: number, issueId: string) => {
+  const novel = await db.novels.get(novelId);
+  await db.novels.update(novelId, {
+    dismissedGlossaryIssues: Array.from(new Set([...(novel?.dismissedGlossaryIssues || []), issueId]))
+  });
+};
+
+/**
+ * The term a manual add would duplicate, matched on originals and aliases.
+ */
+export const findExistingTerm = (terms: Term[], original: string): { term: Term; alias?: TermAlias } | undefined => {
+  const key = original.trim().toLowerCase();
+  for (const term of terms) {
+    if (term.original.trim().toLowerCase() === key) return { term };
+    const alias = term.aliases?.find(a => a.source.trim().toLowerCase() === key);
+    if (alias) return { term, alias };
+  }
+  return undefined;
+};
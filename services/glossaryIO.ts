@@ -0,0 +1,249 @@
+import { db } from './db';
+import { CategoryDefinition, Term, TermAlias } from '../types';
+import { matchCategory } from './categories';
+import { parseProfile } from './characterProfiles';
+
+// Glossary exchange with other translators and fan wikis: CSV, TSV and JSON.
+// Imports go through a column mapping so lists with foreign headers work.
+
+export type GlossaryFormat = 'csv' | 'tsv' | 'json';
+export type GlossaryField = 'original' | 'translation' | 'category' | 'locked' | 'notes' | 'aliases' | 'profile';
+export type MergeStrategy = 'skip' | 'overwrite-unlocked' | 'keep-both';
+
+export const GLOSSARY_FIELDS: GlossaryField[] = ['original', 'translation', 'category', 'locked', 'notes', 'aliases', 'profile'];
+
+// Column index per field, -1 when the file has no such column
+export type ColumnMapping = Record<GlossaryField, number>;
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+// Header names seen in the wild for each field
+const HEADER_HINTS: Record<GlossaryField, string[]> = {
+  original: ['original', 'source', 'term', 'raw', 'chinese', 'korean', 'japanese', 'name'],
+  translation: ['translation', 'target', 'arabic', 'french', 'spanish', 'indonesian', 'translated', 'meaning'],
+  category: ['category', 'type', 'kind', 'class'],
+  locked: ['locked', 'lock', 'fixed', 'verified'],
+  notes: ['notes', 'note', 'comment', 'comments', 'description', 'remarks'],
+  aliases: ['aliases', 'alias', 'variants', 'other names'],
+  profile: ['profile', 'character profile'],
+};
+
+// --- Helpers ---
+
+// A profile column holds the JSON of a CharacterProfile; anything else is ignored
+const parseProfileCell = (value: string) => {
+  if (!value) return undefined;
+  try {
+    return parseProfile(JSON.parse(value));
+  } catch {
+    return undefined;
+  }
+};
+
+// RFC 4180 style: quoted fields may contain delimiters, quotes ("") and newlines
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const quoteField = (value: string, delimiter: string): string =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// "Young Master Lin=السيد الشاب لين; Feng" <-> TermAlias[]
+const formatAliases = (aliases: TermAlias[] = []): string =>
+  aliases.map(a => (a.translation ? `${a.source}=${a.translation}` : a.source)).join('; ');
+
+const parseAliases = (value: string): TermAlias[] =>
+  value
+    .split(/[;|]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [source, translation] = part.split('=').map(s => s.trim());
+      return translation ? { source, translation } : { source };
+    });
+
+const parseBoolean = (value: string): boolean => /^(true|yes|y|1|x|locked)$/i.test(value.trim());
+
+const termKey = (original: string) => original.trim().toLowerCase();
+
+// --- Core Functions ---
+
+export const formatForFile = (fileName: string): GlossaryFormat => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'json') return 'json';
+  if (ext === 'tsv' || ext === 'tab' || ext === 'txt') return 'tsv';
+  return 'csv';
+};
+
+export const exportGlossary = (terms: Term[], format: GlossaryFormat): Blob => {
+  if (format === 'json') {
+    const entries = terms.map(t => ({
+      original: t.original,
+      translation: t.translation,
+      category: t.category,
+      locked: t.isLocked,
+      notes: t.notes || '',
+      aliases: t.aliases || [],
+      ...(t.profile ? { profile: t.profile } : {}),
+    }));
+    return new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+  }
+
+  const delimiter = format === 'tsv' ? '\t' : ',';
+  const lines = [
+    GLOSSARY_FIELDS.join(delimiter),
+    ...terms.map(t =>
+      [t.original, t.translation, t.category, t.isLocked ? 'true' : 'false', t.notes || '', formatAliases(t.aliases), t.profile ? JSON.stringify(t.profile) : '']
+        .map(v => quoteField(v, delimiter))
+        .join(delimiter)
+    ),
+  ];
+  // BOM so spreadsheet apps detect UTF-8 (Arabic and CJK text)
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: format === 'tsv' ? 'text/tab-separated-values' : 'text/csv' });
+};
+
+/**
+ * Parses an import file into a header row and data rows. JSON arrays of
+ * objects become a table whose headers are the union of their keys.
+ */
+export const parseGlossaryFile = (text: string, format: GlossaryFormat): ParsedTable => {
+  const clean = text.replace(/^\uFEFF/, '');
+  if (format === 'json') {
+    const data = JSON.parse(clean);
+    const list: Record<string, unknown>[] = Array.isArray(data) ? data : Array.isArray(data?.terms) ? data.terms : [];
+    const headers = Array.from(new Set(list.flatMap(item => Object.keys(item || {}))));
+    const rows = list.map(item =>
+      headers.map(h => {
+        const value = item?.[h];
+        if (h === 'aliases' && Array.isArray(value)) {
+          return formatAliases(value.map(a => (typeof a === 'string' ? { source: a } : a as TermAlias)));
+        }
+        // Profiles travel as JSON text, as in CSV exports
+        if (h === 'profile' && value && typeof value === 'object') return JSON.stringify(value);
+        return value === undefined || value === null ? '' : String(value);
+      })
+    );
+    return { headers, rows };
+  }
+
+  const [headers = [], ...rows] = parseDelimited(clean, format === 'tsv' ? '\t' : ',');
+  return { headers: headers.map(h => h.trim()), rows };
+};
+
+// False for headerless lists, whose first row is already a term
+export const looksLikeHeader = (headers: string[]): boolean =>
+  headers.some(h => GLOSSARY_FIELDS.some(f => HEADER_HINTS[f].includes(h.toLowerCase().trim())));
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const lower = headers.map(h => h.toLowerCase().trim());
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  for (const field of GLOSSARY_FIELDS) {
+    const index = lower.findIndex((h, i) => !used.has(i) && HEADER_HINTS[field].includes(h));
+    mapping[field] = index;
+    if (index >= 0) used.add(index);
+  }
+  // Headerless two-column lists: first is the original, second the translation
+  if (mapping.original < 0 && mapping.translation < 0 && headers.length >= 2) {
+    mapping.original = 0;
+    mapping.translation = 1;
+  }
+  return mapping;
+};
+
+export const rowsToTerms = (table: ParsedTable, mapping: ColumnMapping, novelId: number, categories: CategoryDefinition[]): Term[] => {
+  const cell = (row: string[], field: GlossaryField) => (mapping[field] >= 0 ? row[mapping[field]] || '' : '').trim();
+  return table.rows
+    .map(row => {
+      const notes = cell(row, 'notes');
+      const aliases = parseAliases(cell(row, 'aliases'));
+      const profile = parseProfileCell(cell(row, 'profile'));
+      return {
+        novelId,
+        original: cell(row, 'original'),
+        translation: cell(row, 'translation'),
+        category: matchCategory(cell(row, 'category'), categories),
+        isLocked: parseBoolean(cell(row, 'locked')),
+        ...(notes ? { notes } : {}),
+        ...(aliases.length ? { aliases } : {}),
+        ...(profile ? { profile } : {}),
+      };
+    })
+    .filter(t => t.original && t.translation);
+};
+
+/**
+ * Adds imported terms to a novel's glossary. A conflict is a term with the
+ * same original (case-insensitive); locked terms are never overwritten.
+ */
+export const importTerms = async (novelId: number, terms: Term[], strategy: MergeStrategy): Promise<ImportResult> => {
+  const result: ImportResult = { added: 0, updated: 0, skipped: 0 };
+  await (db as any).transaction('rw', db.glossary, async () => {
+    const existing = new Map<string, Term>(
+      (await db.glossary.where({ novelId }).toArray()).map(t => [termKey(t.original), t])
+    );
+
+    for (const term of terms) {
+      const current = existing.get(termKey(term.original));
+      if (current && strategy !== 'keep-both') {
+        if (strategy === 'skip' || current.isLocked) {
+          result.skipped++;
+          continue;
+        }
+        const { novelId: _, ...changes } = term;
+        await db.glossary.update(current.id!, changes);
+        result.updated++;
+        continue;
+      }
+      const id = await db.glossary.add({ ...term });
+      // Duplicates within the file itself follow the same strategy
+      if (!current) existing.set(termKey(term.original), { ...term, id });
+      result.added++;
+    }
+  });
+  return result;
+};
@@ -0,0 +1,86 @@
+import { db } from './db';
+import { Term, TermCandidate } from '../types';
+import { getEffectiveGlossary, isInherited } from './sharedGlossaries';
+import { surfaceKeys } from './termMatcher';
+
+// Review queue for Deep Scan proposals. Accepting is the only way scan
+// results reach the glossary, and it never touches a locked term.
+
+export interface ReviewResult {
+  added: number;
+  updated: number;
+  skippedLocked: string[]; // Originals left alone because the glossary term is locked
+  skippedUntranslated: string[]; // Proposals without a translation; they stay in review
+}
+
+const termKey = (original: string) => original.trim().toLowerCase();
+
+/**
+ * Moves proposals into the glossary. A proposal for a term that already
+ * exists updates it, unless that term is locked. Proposals without a
+ * translation (e.g. a failed lookup) are not accepted until one is entered.
+ */
+export const acceptProposals = async (novelId: number, ids: number[]): Promise<ReviewResult> => {
+  const result: ReviewResult = { added: 0, updated: 0, skippedLocked: [], skippedUntranslated: [] };
+  await (db as any).transaction('rw', db.novels, db.glossary, db.scanCandidates, async () => {
+    const candidates = (await db.scanCandidates.bulkGet(ids))
+      .filter((c): c is TermCandidate => !!c && c.status === 'proposed' && c.novelId === novelId);
+    const proposals = candidates.filter(c => c.translation?.trim());
+    result.skippedUntranslated = candidates.filter(c => !c.translation?.trim()).map(c => c.original);
+    const glossary = await getEffectiveGlossary(novelId);
+    const own = glossary.filter(t => !isInherited(t, novelId));
+    const existing = new Map<string, Term>(own.map(t => [termKey(t.original), t]));
+    // Proposals that are already an alias of some term, or inherited from a shared glossary, add nothing
+    const aliasKeys = new Set([
+      ...own.flatMap(t => (t.aliases || []).map(a => termKey(a.source))),
+      ...glossary.filter(t => isInherited(t, novelId)).flatMap(surfaceKeys)
+    ]);
+
+    for (const proposal of proposals) {
+      if (aliasKeys.has(proposal.key)) continue;
+      const term = existing.get(proposal.key);
+      if (term?.isLocked) {
+        result.skippedLocked.push(proposal.original);
+      } else if (term) {
+        await db.glossary.update(term.id!, {
+          translation: proposal.translation!.trim(),
+          category: proposal.category,
+          occurrences: proposal.occurrences,
+          firstSeenOrder: proposal.firstSeenOrder,
+          // A profile written by hand is kept
+          ...(proposal.profile && !term.profile ? { profile: proposal.profile } : {})
+        });
+        result.updated++;
+      } else {
+        const added: Term = {
+          novelId,
+          original: proposal.original,
+          translation: proposal.translation!.trim(),
+          category: proposal.category,
+          isLocked: false,
+          occurrences: proposal.occurrences,
+          firstSeenOrder: proposal.firstSeenOrder,
+          ...(proposal.profile ? { profile: proposal.profile } : {})
+        };
+        added.id = await db.glossary.add(added);
+        existing.set(proposal.key, added);
+        result.added++;
+      }
+    }
+    await db.scanCandidates.bulkDelete(proposals.map(p => p.id!));
+  });
+  return result;
+};
+
+// Rejected terms are remembered so later scans do not propose them again
+export const rejectProposals = async (ids: number[]) => {
+  await db.scanCandidates.where('id').anyOf(ids).modify({ status: 'rejected' });
+};
+
+// Edits a proposal before accepting it; an edited translation counts as checked
+export const updateProposal = async (id: number, changes: Partial<Pick<TermCandidate, 'translation' | 'category'>>) => {
+  await db.scanCandidates.update(id, {
+    ...changes,
+    ...(changes.translation !== undefined ? { needsLookup: false } : {})
+  });
+};
@@ -0,0 +1,45 @@
+import { Language, Novel } from '../types';
+
+// Per-novel source and target languages. Novels created before languages
+// were configurable translate into Arabic from an undeclared source.
+
+export const LANGUAGES: Language[] = [
+  { code: 'ar', name: 'Arabic', dir: 'rtl', fontClass: 'font-arabic' },
+  { code: 'fa', name: 'Persian', dir: 'rtl', fontClass: 'font-arabic' },
+  { code: 'ur', name: 'Urdu', dir: 'rtl', fontClass: 'font-arabic' },
+  { code: 'he', name: 'Hebrew', dir: 'rtl', fontClass: 'font-serif' },
+  { code: 'en', name: 'English', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'fr', name: 'French', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'es', name: 'Spanish', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'pt', name: 'Portuguese', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'de', name: 'German', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'it', name: 'Italian', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'ru', name: 'Russian', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'tr', name: 'Turkish', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'id', name: 'Indonesian', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'vi', name: 'Vietnamese', dir: 'ltr', fontClass: 'font-serif' },
+  { code: 'th', name: 'Thai', dir: 'ltr', fontClass: 'font-sans' },
+  { code: 'zh', name: 'Chinese', dir: 'ltr', fontClass: 'font-sans' },
+  { code: 'ja', name: 'Japanese', dir: 'ltr', fontClass: 'font-sans' },
+  { code: 'ko', name: 'Korean', dir: 'ltr', fontClass: 'font-sans' },
+];
+
+export const DEFAULT_TARGET_LANGUAGE = 'ar';
+
+export interface NovelLanguages {
+  source?: Language; // Unset: the model detects the source language
+  target: Language;
+}
+
+// Unknown codes still work; they are named by their code
+export const getLanguage = (code: string): Language =>
+  LANGUAGES.find(l => l.code === code) || { code, name: code, dir: 'ltr', fontClass: 'font-serif' };
+
+export const getLanguages = (novel?: Novel): NovelLanguages => ({
+  source: novel?.sourceLanguage ? getLanguage(novel.sourceLanguage) : undefined,
+  target: getLanguage(novel?.targetLanguage || DEFAULT_TARGET_LANGUAGE),
+});
+
+// Label for prompts: "Chinese" or "the source language"
+export const sourceLanguageName = (languages: NovelLanguages): string =>
+  languages.source?.name || 'the source language';
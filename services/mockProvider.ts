@@ -0,0 +1,75 @@
+import { CategoryDefinition, GlossaryViolation, Term } from "../types";
+import { fallbackCategory } from "./categories";
+import type { TermTranslationRequest, TermTranslationResult, TranslateOptions, TranslationProvider } from "./translationProvider";
+import { splitIntoSegments } from "./chunking";
+import { expectedTranslation, getTermMatcher } from "./termMatcher";
+import { getLanguages, NovelLanguages } from "./languages";
+
+// Deterministic offline provider: no network, same input -> same output.
+// Useful for exercising the UI, queues and glossary tooling without a model.
+
+// Capitalised word sequences ("Lin Feng", "Azure Cloud Sect") and CJK runs
+const CANDIDATE_PATTERN = /\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\b|[\u4e00-\u9fff]{2,4}/g;
+
+// Replace glossary terms with their translations and tag every paragraph
+const mockTranslateText = (text: string, glossary: Term[], tag: string): string => {
+  const matches = getTermMatcher(glossary).findMatches(text);
+  let result = '';
+  let cursor = 0;
+  for (const m of matches) {
+    result += text.slice(cursor, m.start) + expectedTranslation(m.term, m.alias);
+    cursor = m.end;
+  }
+  result += text.slice(cursor);
+  return result
+    .split('\n\n')
+    .map(p => `[${tag}] ${p}`)
+    .join('\n\n');
+};
+
+// Output is tagged with the target language code, e.g. "[FR] ..." and "[fr:Lin Feng]"
+export const createMockProvider = (languages: NovelLanguages = getLanguages()): TranslationProvider => {
+  const code = languages.target.code;
+  const mockTranslateTerm = (term: string) => `[${code}:${term}]`;
+
+  return {
+    supportsSearch: false,
+
+    extractTerms: async (textChunk: string, categories: CategoryDefinition[]): Promise<Partial<Term>[]> => {
+      const counts = new Map<string, number>();
+      for (const match of textChunk.match(CANDIDATE_PATTERN) || []) {
+        counts.set(match, (counts.get(match) || 0) + 1);
+      }
+      return Array.from(counts.entries())
+        .filter(([, count]) => count > 1)
+        .map(([original]) => ({ original, category: fallbackCategory(categories) }));
+    },
+
+    translateTerm: async (term: string): Promise<string | null> => mockTranslateTerm(term),
+
+    translateTerms: async (terms: TermTranslationRequest[]): Promise<TermTranslationResult[]> =>
+      terms.map(t => ({ original: t.original, translation: mockTranslateTerm(t.original), confidence: 'high', famous: false })),
+
+    translateChapter: async (content: string, glossary: Term[], options: TranslateOptions = {}): Promise<string> => {
+      const segments = splitIntoSegments(content, options.maxSegmentChars);
+      const injected = new Set<Term>();
+      const translated = segments.map((segment, i) => {
+        getTermMatcher(glossary).termsIn(segment).forEach(t => injected.add(t));
+        options.onProgress?.(i + 1, segments.length);
+        return mockTranslateText(segment, glossary, code.toUpperCase());
+      });
+      options.onTermsInjected?.(Array.from(injected));
+      return translated.join('\n\n');
+    },
+
+    repairTerms: async (translation: string, violations: GlossaryViolation[]): Promise<string> =>
+      violations.reduce(
+        (text, v) => text.split(v.original).join(v.expected).split(mockTranslateTerm(v.original)).join(v.expected),
+        translation
+      ),
+
+    // First sentence of the translation, so summaries are recognisable in prompts
+    summarizeChapter: async (translation: string): Promise<string> =>
+      `[summary] ${translation.split(/(?<=[.!?])\s/)[0].slice(0, 200)}`,
+  };
+};
@@ -0,0 +1,48 @@
+import { ProviderConfig } from "../types";
+import type { GenerateRequest, LlmBackend } from "./translationProvider";
+import { TranslationError, classifyError } from "./translationErrors";
+
+// Ollama's OpenAI endpoint; llama.cpp's server uses http://localhost:8080/v1
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Backend for any server speaking the OpenAI chat-completions API
+ * (llama.cpp, Ollama, LM Studio, vLLM, ...). No web search grounding.
+ */
+export const createOpenAiCompatibleBackend = (config: ProviderConfig): LlmBackend => ({
+  supportsSearch: false,
+  generate: async ({ prompt, jsonSchema }: GenerateRequest): Promise<string> => {
+    const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0.3,
+          ...(jsonSchema ? {
+            response_format: { type: 'json_schema', json_schema: { name: 'result', schema: jsonSchema } }
+          } : {}),
+        }),
+      });
+    } catch (error) {
+      throw classifyError(error);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw classifyError({ status: response.status, message: `HTTP ${response.status}: ${detail.slice(0, 200)}` });
+    }
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    if (choice?.finish_reason === 'length') throw new TranslationError('truncated', 'Model stopped at the output token limit');
+    if (choice?.finish_reason === 'content_filter') throw new TranslationError('safety', 'Response blocked by content filter');
+    return choice?.message?.content || '';
+  }
+});
@@ -0,0 +1,110 @@
+import { db } from './db';
+import { Novel, PromptSettings, PromptVersion } from '../types';
+
+// Per-novel style guide and chapter prompt template. The novel holds the
+// current settings; every saved change is also kept in promptVersions so an
+// earlier prompt can be compared and restored.
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'content', description: 'The chapter text of this part (required)' },
+  { name: 'glossary', description: 'Glossary entries that occur in this part' },
+  { name: 'context', description: 'Summaries of earlier chapters and the tail of the previous part; empty when there is neither' },
+  { name: 'style', description: "The novel's style guide" },
+  { name: 'guidance', description: 'Category guidance for terms not in the glossary; empty when there is none' },
+  { name: 'part', description: 'Note on which part of a long chapter this is; empty for short chapters' },
+  { name: 'source', description: 'Source language name' },
+  { name: 'target', description: 'Target language name' },
+];
+
+export const DEFAULT_STYLE_GUIDE = 'Maintain the tone and flow of a webnovel (engaging, dramatic where necessary).';
+
+export const DEFAULT_TRANSLATION_TEMPLATE = `Translate the following webnovel chapter from {{source}} to {{target}}.
+{{part}}
+
+CRITICAL RULES:
+1. You MUST strictly adhere to the provided Glossary. If a term appears in the text, use the exact {{target}} translation provided below.
+2. Follow the style guide.
+3. Output ONLY the translated {{target}} text.
+4. Keep the paragraph breaks of the source.
+
+STYLE GUIDE:
+{{style}}
+
+GLOSSARY (Strict adherence required):
+{{glossary}}
+{{guidance}}{{context}}
+CHAPTER CONTENT:
+{{content}}`;
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  styleGuide: DEFAULT_STYLE_GUIDE,
+  template: DEFAULT_TRANSLATION_TEMPLATE,
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// --- Core Functions ---
+
+export const getPromptSettings = (novel?: Novel): PromptSettings => novel?.prompt || DEFAULT_PROMPT_SETTINGS;
+
+export const getNovelPromptSettings = async (novelId: number): Promise<PromptSettings> =>
+  getPromptSettings(await db.novels.get(novelId));
+
+// Fills in {{variables}}; unknown names are left as written so mistakes show up in the preview
+export const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(VARIABLE_PATTERN, (match, name: string) => (name in values ? values[name] : match));
+
+/**
+ * Problems that would make the template produce a broken prompt:
+ * variables that do not exist and a missing {{content}}.
+ */
+export const validateTemplate = (template: string): string[] => {
+  const known = new Set(TEMPLATE_VARIABLES.map(v => v.name));
+  const used = Array.from(template.matchAll(VARIABLE_PATTERN), m => m[1]);
+  const problems = Array.from(new Set(used.filter(name => !known.has(name)))).map(name => `Unknown variable {{${name}}}`);
+  if (!used.includes('content')) problems.unshift('The template must contain {{content}}');
+  return problems;
+};
+
+/**
+ * Makes `settings` the novel's prompt and records them as a new version.
+ * Saving settings identical to the latest version does nothing.
+ */
+export const savePromptSettings = async (novelId: number, settings: PromptSettings, note?: string): Promise<void> => {
+  await (db as any).transaction('rw', db.novels, db.promptVersions, async () => {
+    const latest = await db.promptVersions.where('[novelId+version]').between([novelId, 0], [novelId, Infinity]).last();
+    const previous = latest || getPromptSettings(await db.novels.get(novelId));
+    if (previous.styleGuide === settings.styleGuide && previous.template === settings.template) return;
+
+    // The first save also records what the novel used before, so it can be restored
+    let version = latest?.version || 0;
+    if (!latest) {
+      await db.promptVersions.add({
+        novelId,
+        styleGuide: previous.styleGuide,
+        template: previous.template,
+        version: ++version,
+        note: 'Initial',
+        createdAt: new Date(),
+      });
+    }
+    await db.promptVersions.add({
+      novelId,
+      styleGuide: settings.styleGuide,
+      template: settings.template,
+      version: version + 1,
+      ...(note ? { note } : {}),
+      createdAt: new Date(),
+    });
+    await db.novels.update(novelId, { prompt: { styleGuide: settings.styleGuide, template: settings.template } });
+  });
+};
+
+// Restoring is saved as a new version, so it can be undone the same way
+export const restorePromptVersion = async (version: PromptVersion): Promise<void> =>
+  savePromptSettings(version.novelId, version, `Restored from v${version.version}`);
@@ -0,0 +1,100 @@
+import { db } from './db';
+import { Chapter, ChapterRevision, GlossarySnapshotEntry, RevisionSource, Term, TranslationSegment } from '../types';
+import { checkGlossaryCompliance } from './compliance';
+import { selectRelevantTerms } from './termMatcher';
+import { alignTranslation } from './alignment';
+
+// Revision history of chapter translations. Every machine translation and
+// manual save is kept, so re-translating never destroys earlier work.
+
+// Manual saves within this window extend the previous manual revision
+// instead of creating one per keystroke
+const MANUAL_MERGE_MS = 5 * 60 * 1000;
+
+// One entry per required rendering: the term, plus aliases with their own translation
+export const snapshotTerms = (terms: Term[]): GlossarySnapshotEntry[] =>
+  terms.flatMap(t => [
+    { termId: t.id, original: t.original, translation: t.translation },
+    ...(t.aliases || [])
+      .filter(a => a.translation?.trim())
+      .map(a => ({ termId: t.id, original: a.source, translation: a.translation!.trim() }))
+  ]);
+
+/**
+ * Stores a revision of a chapter translation. `terms` are the glossary
+ * entries that applied when the text was produced.
+ */
+export const recordRevision = async (
+  chapter: Chapter,
+  content: string,
+  source: RevisionSource,
+  terms: Term[],
+  note?: string
+) => {
+  const now = new Date();
+  const latest = await db.revisions.where({ chapterId: chapter.id! }).last();
+  if (latest && latest.content === content && latest.source === source) return;
+
+  if (source === 'manual' && !note && latest?.source === 'manual' && !latest.note) {
+    const lastSave = (latest.updatedAt || latest.createdAt).getTime();
+    if (now.getTime() - lastSave < MANUAL_MERGE_MS) {
+      await db.revisions.update(latest.id!, { content, glossary: snapshotTerms(terms), updatedAt: now });
+      return;
+    }
+  }
+
+  await db.revisions.add({
+    novelId: chapter.novelId,
+    chapterId: chapter.id!,
+    content,
+    source,
+    glossary: snapshotTerms(terms),
+    ...(note ? { note } : {}),
+    createdAt: now
+  });
+};
+
+/**
+ * Saves a manual edit of the translation as the chapter text and as a revision.
+ * `segments` are passed when the edit was made row by row in the bilingual
+ * reader; otherwise the text is aligned again.
+ */
+export const saveManualTranslation = async (
+  chapter: Chapter,
+  content: string,
+  glossary: Term[],
+  segments?: TranslationSegment[]
+) => {
+  await db.chapters.update(chapter.id!, {
+    translatedContent: content,
+    segments: segments || alignTranslation(chapter.content, content),
+    glossaryViolations: checkGlossaryCompliance(chapter.content, content, glossary)
+  });
+  await recordRevision(chapter, content, 'manual', selectRelevantTerms(chapter.content, glossary));
+};
+
+/**
+ * Makes an old revision the current translation again. The restore itself is
+ * recorded as a new revision, so it can be undone the same way.
+ */
+export const restoreRevision = async (revision: ChapterRevision, glossary: Term[]): Promise<string> => {
+  const chapter = await db.chapters.get(revision.chapterId);
+  if (!chapter) return revision.content;
+
+  await db.chapters.update(chapter.id!, {
+    translatedContent: revision.content,
+    segments: alignTranslation(chapter.content, revision.content),
+    termRenderings: revision.glossary,
+    glossaryViolations: checkGlossaryCompliance(chapter.content, revision.content, glossary)
+  });
+  await db.revisions.add({
+    novelId: chapter.novelId,
+    chapterId: chapter.id!,
+    content: revision.content,
+    source: revision.source,
+    glossary: revision.glossary,
+    note: `Restored from ${revision.createdAt.toLocaleString()}`,
+    createdAt: new Date()
+  });
+  return revision.content;
+};
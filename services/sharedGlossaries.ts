@@ -0,0 +1,95 @@
+import { db } from './db';
+import { Term } from '../types';
+import { surfaceKeys } from './termMatcher';
+
+// Glossaries shared by several novels of one universe or series. Their terms
+// sit in the glossary table under SHARED_NOVEL_ID, so term ids stay unique
+// and violations / injected term ids resolve the same way for both kinds.
+
+export const SHARED_NOVEL_ID = 0;
+
+export const isInherited = (term: Term, novelId: number) => term.novelId !== novelId;
+
+// --- Core Functions ---
+
+/**
+ * The glossary a novel translates with: its own terms, then the terms of its
+ * attached shared glossaries in precedence order. An inherited term whose
+ * original is already taken is dropped; aliases that are taken are removed.
+ */
+export const getEffectiveGlossary = async (novelId: number): Promise<Term[]> => {
+  const [novel, own] = await Promise.all([db.novels.get(novelId), db.glossary.where({ novelId }).toArray()]);
+  const taken = new Set(own.flatMap(surfaceKeys));
+  const effective = [...own];
+
+  for (const sharedGlossaryId of novel?.sharedGlossaryIds || []) {
+    const inherited = await db.glossary.where({ sharedGlossaryId }).toArray();
+    const added: Term[] = [];
+    for (const term of inherited) {
+      if (taken.has(term.original.trim().toLowerCase())) continue;
+      const aliases = term.aliases?.filter(a => !taken.has(a.source.trim().toLowerCase()));
+      added.push(aliases && aliases.length !== term.aliases!.length ? { ...term, aliases } : term);
+    }
+    added.forEach(t => surfaceKeys(t).forEach(k => taken.add(k)));
+    effective.push(...added);
+  }
+  return effective;
+};
+
+export const createSharedGlossary = async (name: string, novelId?: number): Promise<number> => {
+  const id = await db.sharedGlossaries.add({ name: name.trim(), createdAt: new Date() }) as number;
+  if (novelId !== undefined) await attachSharedGlossary(novelId, id);
+  return id;
+};
+
+export const attachSharedGlossary = async (novelId: number, sharedGlossaryId: number) => {
+  const novel = await db.novels.get(novelId);
+  const ids = (novel?.sharedGlossaryIds || []).filter(id => id !== sharedGlossaryId);
+  await db.novels.update(novelId, { sharedGlossaryIds: [...ids, sharedGlossaryId] });
+};
+
+export const detachSharedGlossary = async (novelId: number, sharedGlossaryId: number) => {
+  const novel = await db.novels.get(novelId);
+  await db.novels.update(novelId, { sharedGlossaryIds: (novel?.sharedGlossaryIds || []).filter(id => id !== sharedGlossaryId) });
+};
+
+// Moves an attached glossary one step up (-1) or down (+1) in precedence
+export const moveSharedGlossary = async (novelId: number, sharedGlossaryId: number, step: -1 | 1) => {
+  const novel = await db.novels.get(novelId);
+  const ids = [...(novel?.sharedGlossaryIds || [])];
+  const from = ids.indexOf(sharedGlossaryId);
+  const to = from + step;
+  if (from < 0 || to < 0 || to >= ids.length) return;
+  [ids[from], ids[to]] = [ids[to], ids[from]];
+  await db.novels.update(novelId, { sharedGlossaryIds: ids });
+};
+
+// Deletes a shared glossary with its terms and detaches it everywhere
+export const deleteSharedGlossary = async (sharedGlossaryId: number) => {
+  await (db as any).transaction('rw', db.sharedGlossaries, db.glossary, db.novels, async () => {
+    await db.glossary.where({ sharedGlossaryId }).delete();
+    await db.novels.toCollection().modify(novel => {
+      if (novel.sharedGlossaryIds) novel.sharedGlossaryIds = novel.sharedGlossaryIds.filter(id => id !== sharedGlossaryId);
+    });
+    await db.sharedGlossaries.delete(sharedGlossaryId);
+  });
+};
+
+/**
+ * Moves novel terms into a shared glossary. Ids are kept, so chapters that
+ * reference them keep resolving. Per-novel scan statistics are dropped.
+ */
+export const moveTermsToShared = async (termIds: number[], sharedGlossaryId: number) => {
+  await db.glossary.where('id').anyOf(termIds).modify(term => {
+    term.novelId = SHARED_NOVEL_ID;
+    term.sharedGlossaryId = sharedGlossaryId;
+    delete term.occurrences;
+    delete term.firstSeenOrder;
+  });
+};
+
+// Copies an inherited term into the novel, where it takes precedence
+export const overrideForNovel = async (term: Term, novelId: number, changes: Partial<Term> = {}): Promise<number> => {
+  const { id: _, sharedGlossaryId: __, ...rest } = term;
+  return await db.glossary.add({ ...rest, ...changes, novelId }) as number;
+};
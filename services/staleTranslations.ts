@@ -0,0 +1,183 @@
+import { db } from './db';
+import { Chapter, GlossarySnapshotEntry, Term } from '../types';
+import { checkGlossaryCompliance } from './compliance';
+import { recordRevision, snapshotTerms } from './revisions';
+import { selectRelevantTerms } from './termMatcher';
+import { alignTranslation } from './alignment';
+
+// Finds translated chapters produced with a rendering the glossary has since
+// changed. Chapters record the renderings they were translated with
+// (Chapter.termRenderings), so every edit can be traced to its chapters.
+
+export interface TermChange {
+  key: string; // termId, surface form and old rendering
+  termId: number;
+  original: string;
+  before: string; // Rendering the chapters were translated with
+  after?: string; // Current rendering; missing when the term or alias was deleted
+  chapters: Chapter[];
+}
+
+export interface ReplaceResult {
+  replaced: number; // Chapters whose text was updated
+  skipped: Chapter[]; // Old rendering not found, or only inside other words; these need a re-translation
+}
+
+// The rendering the glossary requires today for a recorded entry
+const currentRendering = (entry: GlossarySnapshotEntry, byId: Map<number, Term>): string | undefined => {
+  const term = entry.termId !== undefined ? byId.get(entry.termId) : undefined;
+  if (!term) return undefined;
+  const key = entry.original.trim().toLowerCase();
+  if (term.original.trim().toLowerCase() === key) return term.translation.trim();
+  const alias = term.aliases?.find(a => a.source.trim().toLowerCase() === key);
+  if (!alias) return undefined;
+  return alias.translation?.trim() || term.translation.trim();
+};
+
+const LETTER = /[\p{L}\p{M}]/u;
+// Arabic clitics written onto a name: conjunction, preposition, article ("وبال", "لل")
+const CLITIC_PREFIX = /^(?:[وف]?[بلك]?(?:ال)?|[وف]?لل)$/;
+
+// Whether the match at `at` is a word of its own, possibly behind clitic prefixes
+const isWholeWord = (text: string, at: number, length: number): boolean => {
+  if (LETTER.test(text.charAt(at + length))) return false;
+  let start = at;
+  while (start > 0 && LETTER.test(text.charAt(start - 1))) start--;
+  return CLITIC_PREFIX.test(text.slice(start, at));
+};
+
+// Offsets of `needle` in `text` that are not inside any of the `protectedRanges`
+const occurrences = (text: string, needle: string, protectedRanges: [number, number][]): number[] => {
+  const found: number[] = [];
+  for (let at = text.indexOf(needle); at >= 0; at = text.indexOf(needle, at + needle.length)) {
+    if (!protectedRanges.some(([s, e]) => at >= s && at + needle.length <= e)) found.push(at);
+  }
+  return found;
+};
+
+// null: the old rendering does not occur; ambiguous: it also occurs inside other words
+type Replacement = { text: string } | { ambiguous: true } | null;
+
+/**
+ * Replaces `before` with `after` in a translation, except where `before` is
+ * part of a longer rendering of another term (e.g. "لين" inside "لين فنغ").
+ * Short transliterations also turn up inside ordinary words ("لي" in
+ * "التالية"); such text is left for a re-translation rather than guessed at.
+ */
+const replaceRendering = (text: string, before: string, after: string, otherRenderings: string[]): Replacement => {
+  const protectedRanges: [number, number][] = [];
+  for (const other of otherRenderings) {
+    if (other.length <= before.length || !other.includes(before)) continue;
+    for (let at = text.indexOf(other); at >= 0; at = text.indexOf(other, at + other.length)) {
+      protectedRanges.push([at, at + other.length]);
+    }
+  }
+  const positions = occurrences(text, before, protectedRanges);
+  if (positions.length === 0) return null;
+  if (positions.some(at => !isWholeWord(text, at, before.length))) return { ambiguous: true };
+
+  let result = '';
+  let cursor = 0;
+  for (const at of positions) {
+    result += text.slice(cursor, at) + after;
+    cursor = at + before.length;
+  }
+  return { text: result + text.slice(cursor) };
+};
+
+// --- Core Functions ---
+
+// Cheap, order-independent fingerprint of the renderings a glossary requires
+export const glossaryFingerprint = (glossary: Term[]): string => {
+  const entries = snapshotTerms(glossary)
+    .map(e => `${e.termId}\u0001${e.original.trim().toLowerCase()}\u0001${e.translation.trim()}`)
+    .sort();
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (const entry of entries) {
+    for (let i = 0; i < entry.length; i++) {
+      hash ^= entry.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Groups translated chapters by the glossary edit that left them outdated.
+ * Chapters translated before renderings were recorded cannot be checked.
+ */
+export const findTermChanges = (chapters: Chapter[], glossary: Term[]): TermChange[] => {
+  const byId = new Map(glossary.map(t => [t.id!, t]));
+  const changes = new Map<string, TermChange>();
+
+  for (const chapter of chapters) {
+    if (!chapter.translatedContent || !chapter.termRenderings) continue;
+    for (const entry of chapter.termRenderings) {
+      if (entry.termId === undefined) continue;
+      const before = entry.translation.trim();
+      const after = currentRendering(entry, byId);
+      if (after === before) continue;
+      // Already fixed by hand
+      if (after && chapter.translatedContent.includes(after) && !chapter.translatedContent.includes(before)) continue;
+      const key = `${entry.termId}:${entry.original.trim().toLowerCase()}:${before}`;
+      const change = changes.get(key) || { key, termId: entry.termId, original: entry.original, before, after, chapters: [] };
+      change.chapters.push(chapter);
+      changes.set(key, change);
+    }
+  }
+  return Array.from(changes.values()).sort((a, b) => b.chapters.length - a.chapters.length);
+};
+
+/**
+ * Applies a term change by find-and-replace in each affected translation.
+ * Every updated chapter gets a revision, so the replacement can be undone.
+ */
+export const applyTermChangeByReplace = async (change: TermChange, glossary: Term[]): Promise<ReplaceResult> => {
+  const result: ReplaceResult = { replaced: 0, skipped: [] };
+  if (!change.after) return { replaced: 0, skipped: change.chapters };
+
+  for (const stale of change.chapters) {
+    // Re-read: the text may have changed since the list was built
+    const chapter = await db.chapters.get(stale.id!);
+    if (!chapter?.translatedContent) continue;
+    const renderings = chapter.termRenderings || [];
+    // The new rendering is protected too, in case it extends the old one
+    const others = [...renderings.filter(e => e.termId !== change.termId).map(e => e.translation.trim()), change.after];
+    const updated = replaceRendering(chapter.translatedContent, change.before, change.after, others);
+    const key = change.original.trim().toLowerCase();
+    const termRenderings = renderings.map(e =>
+      e.termId === change.termId && e.original.trim().toLowerCase() === key ? { ...e, translation: change.after! } : e
+    );
+    if (updated === null) {
+      // Nothing to replace, but the text may already use the new rendering
+      if (chapter.translatedContent.includes(change.after)) {
+        await db.chapters.update(chapter.id!, { termRenderings });
+        result.replaced++;
+      } else {
+        result.skipped.push(chapter);
+      }
+      continue;
+    }
+    if ('ambiguous' in updated) {
+      result.skipped.push(chapter);
+      continue;
+    }
+
+    await db.chapters.update(chapter.id!, {
+      translatedContent: updated.text,
+      segments: alignTranslation(chapter.content, updated.text),
+      termRenderings,
+      glossaryViolations: checkGlossaryCompliance(chapter.content, updated.text, glossary)
+    });
+    await recordRevision(
+      chapter,
+      updated.text,
+      'manual',
+      selectRelevantTerms(chapter.content, glossary),
+      `Term change: ${change.before} → ${change.after}`
+    );
+    result.replaced++;
+  }
+  return result;
+};
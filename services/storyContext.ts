@@ -0,0 +1,48 @@
+import { db } from './db';
+import { Chapter, Novel, StoryContextSettings, StorySummary } from '../types';
+import { getNovelProvider } from './translationProvider';
+
+// Rolling story context. Each chapter can keep a short summary of its
+// translation; the summaries of the chapters before it go into the prompt, so
+// genders, speakers and running jokes survive chapter boundaries.
+
+export const DEFAULT_STORY_CONTEXT: StoryContextSettings = { enabled: false, chapters: 3 };
+
+export const getStoryContextSettings = (novel?: Novel): StoryContextSettings =>
+  novel?.storyContext || DEFAULT_STORY_CONTEXT;
+
+// --- Core Functions ---
+
+/**
+ * Summaries of the `count` chapters right before `chapter`, oldest first.
+ * Chapters among them without a summary are left out rather than replaced by
+ * older ones, which would pass a distant recap off as the latest events.
+ */
+export const getPreviousSummaries = async (chapter: Chapter, count: number): Promise<StorySummary[]> => {
+  if (count <= 0) return [];
+  const earlier = await db.chapters
+    .where({ novelId: chapter.novelId })
+    .filter(c => c.order < chapter.order)
+    .toArray();
+  return earlier
+    .sort((a, b) => a.order - b.order)
+    .slice(-count)
+    .filter(c => !!c.summary?.trim())
+    .map(c => ({ order: c.order, title: c.title, summary: c.summary! }));
+};
+
+/**
+ * Summarizes a chapter's translation with the novel's provider and stores it
+ * on the chapter. Returns the summary.
+ */
+export const summarizeAndSaveChapter = async (chapter: Chapter, translation: string): Promise<string> => {
+  const provider = await getNovelProvider(chapter.novelId);
+  const summary = (await provider.summarizeChapter(translation)).trim();
+  await db.chapters.update(chapter.id!, { summary });
+  return summary;
+};
+
+// Manual corrections matter: a wrong gender here carries into later chapters
+export const saveChapterSummary = async (chapterId: number, summary: string): Promise<void> => {
+  await db.chapters.update(chapterId, { summary: summary.trim() || undefined });
+};
@@ -0,0 +1,191 @@
+import { Term, TermAlias } from '../types';
+
+// Multi-pattern glossary matcher (Aho-Corasick) so that only the terms that
+// actually occur in a passage are sent to the model. A term is matched by its
+// original and by each of its aliases.
+
+export interface TermMatch {
+  term: Term;
+  alias?: TermAlias; // Set when an alias rather than the original matched
+  start: number; // offset in the searched text
+  end: number; // exclusive
+}
+
+export interface TermMatcher {
+  findMatches: (text: string) => TermMatch[];
+  findAllMatches: (text: string) => TermMatch[];
+  termsIn: (text: string) => Term[];
+}
+
+interface Node {
+  next: Map<string, number>;
+  fail: number;
+  outputs: number[]; // indices into `patterns`, including those reached via fail links
+}
+
+interface SurfaceForm {
+  term: Term;
+  alias?: TermAlias;
+}
+
+interface Pattern {
+  length: number;
+  forms: SurfaceForm[];
+  // Latin-style terms must not match inside a longer word ("Lin" in "Linda")
+  boundedStart: boolean;
+  boundedEnd: boolean;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+// Scripts written without spaces, where word boundaries are meaningless
+const UNSPACED_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+const needsBoundary = (ch: string | undefined) => !!ch && WORD_CHAR.test(ch) && !UNSPACED_CHAR.test(ch);
+
+// Lowercase one UTF-16 unit at a time so offsets stay aligned with the source
+const foldChar = (ch: string): string => {
+  const lower = ch.toLowerCase();
+  return lower.length === 1 ? lower : ch;
+};
+
+const fold = (text: string): string => Array.from({ length: text.length }, (_, i) => foldChar(text[i])).join('');
+
+// --- Core Functions ---
+
+export const buildTermMatcher = (terms: Term[]): TermMatcher => {
+  const nodes: Node[] = [{ next: new Map(), fail: 0, outputs: [] }];
+  const patterns: Pattern[] = [];
+  const patternIndex = new Map<string, number>();
+
+  const forms: { text: string; form: SurfaceForm }[] = terms.flatMap(term => [
+    { text: term.original, form: { term } },
+    ...(term.aliases || []).map(alias => ({ text: alias.source, form: { term, alias } })),
+  ]);
+
+  for (const { text, form } of forms) {
+    const key = fold(text.trim());
+    if (!key) continue;
+
+    const existing = patternIndex.get(key);
+    if (existing !== undefined) {
+      patterns[existing].forms.push(form);
+      continue;
+    }
+
+    let state = 0;
+    for (const ch of key.split('')) {
+      let next = nodes[state].next.get(ch);
+      if (next === undefined) {
+        next = nodes.length;
+        nodes.push({ next: new Map(), fail: 0, outputs: [] });
+        nodes[state].next.set(ch, next);
+      }
+      state = next;
+    }
+    const index = patterns.length;
+    patterns.push({
+      length: key.length,
+      forms: [form],
+      boundedStart: needsBoundary(key[0]),
+      boundedEnd: needsBoundary(key[key.length - 1]),
+    });
+    patternIndex.set(key, index);
+    nodes[state].outputs.push(index);
+  }
+
+  // Breadth-first construction of failure links
+  const queue: number[] = [];
+  nodes[0].next.forEach(child => queue.push(child));
+  while (queue.length) {
+    const current = queue.shift()!;
+    nodes[current].next.forEach((child, ch) => {
+      let fail = nodes[current].fail;
+      while (fail !== 0 && !nodes[fail].next.has(ch)) fail = nodes[fail].fail;
+      const target = nodes[fail].next.get(ch);
+      nodes[child].fail = target ?? 0;
+      nodes[child].outputs.push(...nodes[nodes[child].fail].outputs);
+      queue.push(child);
+    });
+  }
+
+  /**
+   * Non-overlapping matches, leftmost first and longest first when terms
+   * overlap ("Young Master Lin" wins over "Lin").
+   */
+  const scan = (text: string): { start: number; end: number; pattern: number }[] => {
+    const raw = scanAll(text);
+    raw.sort((a, b) => a.start - b.start || b.end - a.end);
+    const selected: typeof raw = [];
+    let cursor = 0;
+    for (const m of raw) {
+      if (m.start < cursor) continue;
+      selected.push(m);
+      cursor = m.end;
+    }
+    return selected;
+  };
+
+  // Every occurrence of every pattern, overlapping ones included
+  const scanAll = (text: string): { start: number; end: number; pattern: number }[] => {
+    const folded = fold(text);
+    const raw: { start: number; end: number; pattern: number }[] = [];
+    let state = 0;
+
+    for (let i = 0; i < folded.length; i++) {
+      const ch = folded[i];
+      while (state !== 0 && !nodes[state].next.has(ch)) state = nodes[state].fail;
+      state = nodes[state].next.get(ch) ?? 0;
+
+      for (const p of nodes[state].outputs) {
+        const { length, boundedStart, boundedEnd } = patterns[p];
+        const start = i - length + 1;
+        if (boundedStart && needsBoundary(text[start - 1])) continue;
+        if (boundedEnd && needsBoundary(text[i + 1])) continue;
+        raw.push({ start, end: i + 1, pattern: p });
+      }
+    }
+    return raw;
+  };
+
+  const findMatches = (text: string): TermMatch[] =>
+    scan(text).map(m => ({ ...patterns[m.pattern].forms[0], start: m.start, end: m.end }));
+
+  // One match per surface form and position, for overlap analysis
+  const findAllMatches = (text: string): TermMatch[] =>
+    scanAll(text).flatMap(m => patterns[m.pattern].forms.map(f => ({ ...f, start: m.start, end: m.end })));
+
+  // Every term with an occurring surface form, including duplicates sharing one
+  const termsIn = (text: string): Term[] => {
+    const seen = new Set<Term>();
+    scan(text).forEach(m => patterns[m.pattern].forms.forEach(f => seen.add(f.term)));
+    return Array.from(seen);
+  };
+
+  return { findMatches, findAllMatches, termsIn };
+};
+
+// Building the automaton is cheap but not free; glossaries are loaded once
+// per translation run, so cache by array identity.
+const matcherCache = new WeakMap<Term[], TermMatcher>();
+
+export const getTermMatcher = (terms: Term[]): TermMatcher => {
+  let matcher = matcherCache.get(terms);
+  if (!matcher) {
+    matcher = buildTermMatcher(terms);
+    matcherCache.set(terms, matcher);
+  }
+  return matcher;
+};
+
+/**
+ * Selects the glossary entries that occur in `text`.
+ */
+export const selectRelevantTerms = (text: string, glossary: Term[]): Term[] => getTermMatcher(glossary).termsIn(text);
+
+// The rendering required where this surface form occurs
+export const expectedTranslation = (term: Term, alias?: TermAlias): string =>
+  alias?.translation?.trim() || term.translation;
+
+// Lowercased original and aliases, for duplicate checks and searches
+export const surfaceKeys = (term: Term): string[] =>
+  [term.original, ...(term.aliases || []).map(a => a.source)].map(s => s.trim().toLowerCase()).filter(Boolean);
@@ -0,0 +1,113 @@
+// Word-level diff for comparing translation revisions. Paragraphs are aligned
+// first and only changed paragraph runs are diffed word by word, which keeps
+// the LCS tables small even when a whole chapter was re-translated.
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// Upper bound for one LCS table (4 bytes per cell)
+const MAX_LCS_CELLS = 4_000_000;
+
+// --- Helpers ---
+
+const lcsDiff = (a: string[], b: string[]): DiffPart[] => {
+  // Common prefix/suffix never need the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = a.slice(0, start).map(text => ({ op: 'equal' as const, text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    midA.forEach(text => parts.push({ op: 'delete', text }));
+    midB.forEach(text => parts.push({ op: 'insert', text }));
+  } else {
+    const width = m + 1;
+    const table = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        table[i * width + j] = midA[i] === midB[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        parts.push({ op: 'equal', text: midA[i] });
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        parts.push({ op: 'delete', text: midA[i++] });
+      } else {
+        parts.push({ op: 'insert', text: midB[j++] });
+      }
+    }
+    while (i < n) parts.push({ op: 'delete', text: midA[i++] });
+    while (j < m) parts.push({ op: 'insert', text: midB[j++] });
+  }
+
+  a.slice(endA).forEach(text => parts.push({ op: 'equal', text }));
+  return parts;
+};
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+// Adjacent parts with the same op become one
+const mergeParts = (parts: DiffPart[]): DiffPart[] => {
+  const merged: DiffPart[] = [];
+  for (const part of parts) {
+    const last = merged[merged.length - 1];
+    if (last && last.op === part.op) last.text += part.text;
+    else if (part.text) merged.push({ ...part });
+  }
+  return merged;
+};
+
+// --- Core Functions ---
+
+/**
+ * Diffs two texts word by word (whitespace is kept as its own token so the
+ * result can be rendered verbatim).
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const lines = lcsDiff(before.split(/(?<=\n)/), after.split(/(?<=\n)/));
+  const parts: DiffPart[] = [];
+  let deleted = '';
+  let inserted = '';
+
+  const flush = () => {
+    if (deleted && inserted) parts.push(...lcsDiff(tokenize(deleted), tokenize(inserted)));
+    else if (deleted) parts.push({ op: 'delete', text: deleted });
+    else if (inserted) parts.push({ op: 'insert', text: inserted });
+    deleted = '';
+    inserted = '';
+  };
+
+  for (const line of lines) {
+    if (line.op === 'delete') deleted += line.text;
+    else if (line.op === 'insert') inserted += line.text;
+    else {
+      flush();
+      parts.push(line);
+    }
+  }
+  flush();
+  return mergeParts(parts);
+};
+
+export const countWords = (text: string): number => tokenize(text).filter(t => /\S/.test(t)).length;
@@ -0,0 +1,134 @@
+import { ImportedChapter } from './bookImport';
+
+export interface ChapterPattern {
+  id: string;
+  label: string;
+  source: string; // regex source, matched against a single trimmed line
+}
+
+export interface ChapterBoundary {
+  title: string;
+  line: number; // 0-based line of the heading
+  length: number; // characters of body text until the next boundary
+}
+
+// Encodings offered in the import dialog. 'auto' tries UTF-8 (with BOM
+// sniffing) and falls back to GB18030, the most common non-UTF-8 raw.
+export const TEXT_ENCODINGS = [
+  { id: 'auto', label: 'Auto-detect' },
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'gb18030', label: 'GBK / GB18030 (Simplified Chinese)' },
+  { id: 'big5', label: 'Big5 (Traditional Chinese)' },
+  { id: 'shift_jis', label: 'Shift-JIS (Japanese)' },
+  { id: 'euc-kr', label: 'EUC-KR (Korean)' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+];
+
+const CN_NUM = '0-9０-９零〇一二两三四五六七八九十百千万';
+
+export const BUILT_IN_PATTERNS: ChapterPattern[] = [
+  { id: 'cn-chapter', label: '第123章 / 第一百章', source: `^第\\s*[${CN_NUM}]+\\s*[章回节節卷集]` },
+  { id: 'en-chapter', label: 'Chapter 123', source: '^(?:chapter|ch\\.?)\\s*\\d+' },
+  { id: 'jp-episode', label: '第123話', source: `^第\\s*[${CN_NUM}]+\\s*話` },
+  { id: 'kr-episode', label: '제123화 / 123화', source: '^(?:제\\s*)?\\d+\\s*[화장]' },
+  { id: 'numbered', label: '123. Title', source: '^\\d{1,5}[.、:：]\\s*\\S' },
+];
+
+// Headings are short; anything longer is a body line that happens to match
+const MAX_HEADING_LENGTH = 80;
+
+// --- Encoding ---
+
+/**
+ * Decodes raw file bytes. With 'auto', a BOM decides; otherwise strict UTF-8
+ * is attempted and GB18030 (a superset of GBK) is the fallback.
+ */
+export const decodeText = (buffer: ArrayBuffer, encoding: string): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  if (encoding !== 'auto') {
+    return { text: new TextDecoder(encoding).decode(bytes), encoding };
+  }
+
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'utf-16le' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'utf-16be' };
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('gb18030').decode(bytes), encoding: 'gb18030' };
+  }
+};
+
+// --- Boundary Detection ---
+
+/**
+ * Compiles a user-supplied pattern. Returns null for invalid regex so the UI
+ * can flag it instead of throwing.
+ */
+export const compilePattern = (source: string): RegExp | null => {
+  if (!source.trim()) return null;
+  try {
+    return new RegExp(source, 'i');
+  } catch {
+    return null;
+  }
+};
+
+export const detectChapterBoundaries = (text: string, pattern: RegExp): ChapterBoundary[] => {
+  const lines = text.split(/\r\n|\r|\n/);
+  const boundaries: ChapterBoundary[] = [];
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.length > MAX_HEADING_LENGTH || !pattern.test(line)) return;
+    boundaries.push({ title: line, line: index, length: 0 });
+  });
+
+  boundaries.forEach((b, i) => {
+    const end = i + 1 < boundaries.length ? boundaries[i + 1].line : lines.length;
+    b.length = lines.slice(b.line + 1, end).join('\n').trim().length;
+  });
+
+  return boundaries;
+};
+
+/**
+ * Picks the built-in pattern with the most matches, or null if none match.
+ */
+export const suggestPattern = (text: string): ChapterPattern | null => {
+  let best: { pattern: ChapterPattern; count: number } | null = null;
+  for (const pattern of BUILT_IN_PATTERNS) {
+    const count = detectChapterBoundaries(text, new RegExp(pattern.source, 'i')).length;
+    if (count > 0 && (!best || count > best.count)) best = { pattern, count };
+  }
+  return best?.pattern ?? null;
+};
+
+/**
+ * Splits text at the detected headings. Text before the first heading becomes
+ * a "Preface" chapter; headings with no body (e.g. a TOC block) are dropped.
+ */
+export const splitTextIntoChapters = (text: string, pattern: RegExp): ImportedChapter[] => {
+  const lines = text.split(/\r\n|\r|\n/);
+  const boundaries = detectChapterBoundaries(text, pattern);
+  const chapters: ImportedChapter[] = [];
+
+  const bodyOf = (from: number, to: number) =>
+    lines
+      .slice(from, to)
+      .map(l => l.trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+  const preface = bodyOf(0, boundaries.length ? boundaries[0].line : lines.length);
+  if (preface) chapters.push({ title: boundaries.length ? 'Preface' : 'Chapter 1', content: preface });
+
+  boundaries.forEach((b, i) => {
+    const end = i + 1 < boundaries.length ? boundaries[i + 1].line : lines.length;
+    const content = bodyOf(b.line + 1, end);
+    if (content) chapters.push({ title: b.title, content });
+  });
+
+  return chapters;
+};
@@ -0,0 +1,63 @@
+import { TranslationErrorKind } from '../types';
+
+// Structured failures from translation backends. Anything a provider throws
+// is normalised into a TranslationError so callers can decide whether to
+// retry and what to tell the user; error text never ends up as content.
+
+const RETRYABLE: TranslationErrorKind[] = ['quota', 'server', 'network'];
+
+export const ERROR_LABELS: Record<TranslationErrorKind, string> = {
+  quota: 'Quota exceeded',
+  auth: 'Authentication failed',
+  safety: 'Blocked by safety filter',
+  truncated: 'Output truncated',
+  network: 'Network error',
+  server: 'Server error',
+  unknown: 'Translation failed',
+};
+
+export class TranslationError extends Error {
+  kind: TranslationErrorKind;
+  status?: number;
+
+  constructor(kind: TranslationErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'TranslationError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+const kindForStatus = (status: number, message: string): TranslationErrorKind => {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 400 && /api[ _-]?key/i.test(message)) return 'auth';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Maps any thrown value (SDK ApiError, fetch TypeError, ...) to a TranslationError.
+ */
+export const classifyError = (error: unknown): TranslationError => {
+  if (error instanceof TranslationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  // fetch() rejects with a TypeError when the server cannot be reached
+  if (error instanceof TypeError) return new TranslationError('network', message);
+
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+  if (status !== undefined) return new TranslationError(kindForStatus(status, message), message, status);
+
+  if (/RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(message)) return new TranslationError('quota', message);
+  if (/API_KEY_INVALID|PERMISSION_DENIED|unauthori[sz]ed/i.test(message)) return new TranslationError('auth', message);
+  if (/network|failed to fetch|ECONNREFUSED|timed? ?out/i.test(message)) return new TranslationError('network', message);
+  return new TranslationError('unknown', message);
+};
+
+export const describeTranslationError = (error: TranslationError): string =>
+  `${ERROR_LABELS[error.kind]}: ${error.message}`.slice(0, 500);
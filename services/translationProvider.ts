@@ -0,0 +1,520 @@
+import { CategoryDefinition, GlossaryViolation, PromptSettings, ProviderConfig, StorySummary, Term } from "../types";
+import { splitIntoSegments, tailOf } from "./chunking";
+import { selectRelevantTerms } from "./termMatcher";
+import { createGeminiBackend } from "./geminiService";
+import { createOpenAiCompatibleBackend } from "./openAiCompatibleService";
+import { createMockProvider } from "./mockProvider";
+import { TranslationError, classifyError } from "./translationErrors";
+import { db } from "./db";
+import { getLanguages, NovelLanguages, sourceLanguageName } from "./languages";
+import { DEFAULT_PROMPT_SETTINGS, renderTemplate } from "./promptTemplates";
+import { formatProfile, isCharacterCategory, parseProfile } from "./characterProfiles";
+
+// --- Interfaces ---
+
+export interface TranslateOptions {
+  maxSegmentChars?: number;
+  onProgress?: (completedSegments: number, totalSegments: number) => void;
+  // Called once with every glossary term that was put into a prompt
+  onTermsInjected?: (terms: Term[]) => void;
+  categories?: CategoryDefinition[]; // The novel's categories, for their translation guidance
+  prompt?: PromptSettings; // The novel's style guide and chapter template
+  storyContext?: StorySummary[]; // Summaries of the preceding chapters, oldest first
+}
+
+/**
+ * Everything the app asks of a translation model. Gemini and any
+ * OpenAI-compatible server share one prompt implementation (createLlmProvider);
+ * the mock provider answers deterministically for offline testing.
+ */
+export interface TranslationProvider {
+  supportsSearch: boolean; // translateTerm can look terms up on the web
+  extractTerms: (textChunk: string, categories: CategoryDefinition[]) => Promise<Partial<Term>[]>;
+  translateTerm: (term: string, contextSnippet: string) => Promise<string | null>; // null when the lookup failed
+  translateTerms: (terms: TermTranslationRequest[], categories?: CategoryDefinition[]) => Promise<TermTranslationResult[]>;
+  translateChapter: (content: string, glossary: Term[], options?: TranslateOptions) => Promise<string>;
+  repairTerms: (translation: string, violations: GlossaryViolation[]) => Promise<string>;
+  summarizeChapter: (translation: string) => Promise<string>;
+}
+
+export interface TermTranslationRequest {
+  original: string;
+  category: string;
+  context: string; // Snippet around an occurrence of the term
+}
+
+export interface TermTranslationResult {
+  original: string;
+  translation: string;
+  confidence: 'high' | 'low';
+  famous: boolean; // Known from a popular work, so an established rendering may exist
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  jsonSchema?: object; // Plain JSON Schema for structured output
+  useSearch?: boolean; // Ground with web search where the backend supports it
+}
+
+// The raw text-generation primitive a model server has to offer
+export interface LlmBackend {
+  supportsSearch: boolean;
+  generate: (request: GenerateRequest) => Promise<string>;
+}
+
+// --- Helpers ---
+
+// Sanitize JSON string from Markdown code blocks
+const cleanJson = (text: string): string => {
+  return text.replace(/```json/g, '').replace(/```/g, '').trim();
+};
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// Per-segment retries for chapter translation
+const SEGMENT_MAX_ATTEMPTS = 3;
+const SEGMENT_RETRY_BASE_MS = 2000;
+
+// The category enum comes from the novel's own category list; profile fields apply to characters only
+const termListSchema = (categories: CategoryDefinition[]) => ({
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      original: { type: 'string' },
+      category: { type: 'string', enum: categories.map(c => c.name) },
+      gender: { type: 'string', enum: ['male', 'female', 'plural', 'unknown'] },
+      register: { type: 'string', enum: ['formal', 'casual', 'mixed'] },
+      addressedAs: { type: 'string' },
+      relationships: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            relation: { type: 'string' },
+            address: { type: 'string' },
+          },
+          required: ['name', 'relation'],
+        },
+      },
+    },
+    required: ['original', 'category'],
+  },
+});
+
+const TERM_TRANSLATION_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      translation: { type: 'string' },
+      confidence: { type: 'string', enum: ['high', 'low'] },
+      famous: { type: 'boolean' },
+    },
+    required: ['id', 'translation', 'confidence', 'famous'],
+  },
+};
+
+// "Lin Feng -> لين فنغ", followed by the aliases that refer to the same entity
+// and, for characters, their profile
+const formatGlossaryEntry = (term: Term): string => {
+  const aliases = (term.aliases || [])
+    .filter(a => a.source.trim())
+    .map(a => `  also written "${a.source}" -> ${a.translation?.trim() || term.translation}`);
+  const profile = term.profile ? formatProfile(term.profile) : '';
+  return [`${term.original} -> ${term.translation}`, ...aliases, ...(profile ? [`  character: ${profile}`] : [])].join('\n');
+};
+
+// Part of the glossary itself, so custom templates explain the profile lines too
+const PROFILE_NOTE = 'Lines starting with "character:" give a character\'s gender and speech register. Make pronouns, verbs and adjectives agree with them and keep each character\'s dialogue in their register.';
+
+const formatGlossary = (terms: Term[]): string => {
+  if (terms.length === 0) return '(no glossary terms in this passage)';
+  const entries = terms.map(formatGlossaryEntry).join('\n');
+  return terms.some(t => t.profile) ? `${PROFILE_NOTE}\n${entries}` : entries;
+};
+
+// "- Cultivation Realm: translate by meaning, e.g. ..." for categories with guidance
+const formatCategoryGuidance = (categories: CategoryDefinition[]): string =>
+  categories
+    .filter(c => c.guidance?.trim())
+    .map(c => `- ${c.name}: ${c.guidance!.trim().replace(/\s+/g, ' ')}`)
+    .join('\n');
+
+// "Ch. 12 (The Duel): ..." per previous chapter, oldest first
+const formatStoryContext = (summaries: StorySummary[]): string =>
+  summaries.map(s => `Ch. ${s.order} (${s.title}): ${s.summary.trim().replace(/\s+/g, ' ')}`).join('\n');
+
+// Fills the chapter template for one part of a chapter
+const buildTranslationPrompt = (
+  languages: NovelLanguages,
+  settings: PromptSettings,
+  segment: string,
+  glossaryString: string,
+  guidance: string,
+  story: string,
+  previous: { source: string; translation: string } | null,
+  position: { index: number; total: number }
+): string => {
+  const target = languages.target.name;
+  // Who is who and who is speaking carries over from earlier chapters
+  const storyBlock = story ? `
+STORY SO FAR (context only, do NOT translate; keep genders, speakers and running jokes consistent):
+${story}
+` : '';
+  const previousBlock = previous ? `
+PREVIOUS PASSAGE (context only, do NOT translate or repeat it):
+Source: ${previous.source}
+${target}: ${previous.translation}
+` : '';
+
+  const guidanceBlock = guidance ? `
+TERM CATEGORY GUIDANCE (for names and terms not in the glossary):
+${guidance}
+` : '';
+
+  const part = position.total > 1
+    ? `This is part ${position.index + 1} of ${position.total} of the chapter. Continue seamlessly from the previous passage.`
+    : '';
+
+  return renderTemplate(settings.template, {
+    content: segment,
+    glossary: glossaryString,
+    context: storyBlock + previousBlock,
+    style: settings.styleGuide.trim() || '(none)',
+    guidance: guidanceBlock,
+    part,
+    source: sourceLanguageName(languages),
+    target,
+  });
+};
+
+// The prompt for part `index` of a chapter and the glossary terms it contains
+const buildSegmentPrompt = (
+  languages: NovelLanguages,
+  segments: string[],
+  index: number,
+  previousTranslation: string | null,
+  glossary: Term[],
+  options: TranslateOptions
+): { prompt: string; terms: Term[] } => {
+  const previous = index > 0 && previousTranslation !== null
+    ? { source: tailOf(segments[index - 1]), translation: tailOf(previousTranslation) }
+    : null;
+
+  // Only the terms that occur in this segment go into the prompt
+  const terms = selectRelevantTerms(segments[index], glossary);
+  const glossaryString = formatGlossary(terms);
+  const guidance = formatCategoryGuidance(options.categories || []);
+  const story = formatStoryContext(options.storyContext || []);
+
+  const prompt = buildTranslationPrompt(
+    languages,
+    options.prompt || DEFAULT_PROMPT_SETTINGS,
+    segments[index],
+    glossaryString,
+    guidance,
+    story,
+    previous,
+    { index, total: segments.length }
+  );
+  return { prompt, terms };
+};
+
+// --- LLM Provider ---
+
+export const createLlmProvider = (backend: LlmBackend, languages: NovelLanguages = getLanguages()): TranslationProvider => {
+  const target = languages.target.name;
+
+  // Runs one request, retrying it on its own with a growing delay
+  const generateWithRetry = async (request: GenerateRequest): Promise<string> => {
+    let lastError = new TranslationError('unknown', 'Empty response');
+    for (let attempt = 1; attempt <= SEGMENT_MAX_ATTEMPTS; attempt++) {
+      try {
+        const text = (await backend.generate(request)).trim();
+        if (text) return text;
+        lastError = new TranslationError('unknown', 'Empty response');
+      } catch (error) {
+        lastError = classifyError(error);
+        // Auth, safety and truncation fail the same way on every attempt
+        if (!lastError.retryable) throw lastError;
+      }
+      if (attempt < SEGMENT_MAX_ATTEMPTS) await sleep(SEGMENT_RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+    throw lastError;
+  };
+
+  /**
+   * 1. DEEP SCAN: Extracts terms from one scan window of text.
+   */
+  const extractTerms = async (textChunk: string, categories: CategoryDefinition[]): Promise<Partial<Term>[]> => {
+    const categoryList = categories
+      .map(c => (c.guidance?.trim() ? `${c.name} (${c.guidance.trim().replace(/\s+/g, ' ')})` : c.name))
+      .join('; ');
+    const characterCategories = categories.filter(c => isCharacterCategory(c.name)).map(c => c.name);
+    const profileFields = characterCategories.length ? `
+      For characters (${characterCategories.join(', ')}) also give what the text shows, omitting what it does not:
+      - gender: male, female, plural (a group referred to as one) or unknown
+      - register: formal, casual or mixed (depends on who they talk to)
+      - addressedAs: how others usually address the character
+      - relationships: other characters with { name, relation, address (how this character addresses them) }
+    ` : '';
+    const prompt = `
+      Analyze the following webnovel text.
+      Identify key proper nouns and recurring terminology that require consistent translation.
+      Categorize them into: ${categoryList}.
+
+      Return a JSON array where each object has:
+      - original: the term exactly as written in the text
+      - category: one of the requested categories
+      ${profileFields}
+      Ignore common words. Focus on unique entities.
+
+      Text:
+      "${textChunk}"
+    `;
+    // Callers keep chunks small (see deepScan.ts); nothing is cut off here.
+
+    // Failures propagate so a Deep Scan can stop and resume at this window
+    const text = await backend.generate({ prompt, jsonSchema: termListSchema(categories) });
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cleanJson(text) || "[]");
+    } catch (error) {
+      throw new TranslationError('unknown', 'Model returned invalid JSON for term extraction');
+    }
+    if (!Array.isArray(parsed)) {
+      throw new TranslationError('unknown', 'Model returned no term list for term extraction');
+    }
+    // Entries that are not objects with an original are dropped
+    const entries: unknown[] = parsed;
+    return entries.flatMap(entry => {
+      if (!entry || typeof entry !== 'object') return [];
+      const { original, category, ...profile } = entry as Record<string, unknown>;
+      if (typeof original !== 'string') return [];
+      const name = typeof category === 'string' ? category : undefined;
+      const parsedProfile = name && isCharacterCategory(name) ? parseProfile(profile) : undefined;
+      return [{ original, category: name, ...(parsedProfile ? { profile: parsedProfile } : {}) }];
+    });
+  };
+
+  /**
+   * 2. SMART TERM TRANSLATION: Uses Search Grounding (if available) to find established translations in the target language.
+   */
+  const translateTerm = async (term: string, contextSnippet: string): Promise<string | null> => {
+    const prompt = `
+      Find the established or most accurate ${target} translation/transliteration for the webnovel term: "${term}".
+      Context of usage: "${contextSnippet}".
+
+      If it is a famous anime/novel term (e.g., from Naruto, One Piece, Wuxia novels), find the community accepted ${target} term.
+      If it is a generic name, transliterate it accurately to ${target} phonetics.
+
+      Return ONLY the ${target} translation string. Nothing else.
+    `;
+
+    try {
+      const text = await backend.generate({ prompt, useSearch: backend.supportsSearch });
+      // Clean up response, sometimes models are chatty even when told not to be
+      // Remove quotes if present
+      return text.trim().replace(/^["']|["']$/g, '') || null;
+    } catch (error) {
+      // No answer is better than the untranslated term passing for a translation
+      console.error(`Search error for ${term}:`, error);
+      return null;
+    }
+  };
+
+  /**
+   * 2b. BATCH TERM TRANSLATION: Many terms per request, each with its own
+   * context. The model flags terms worth a search-grounded second look.
+   */
+  const translateTerms = async (terms: TermTranslationRequest[], categories: CategoryDefinition[] = []): Promise<TermTranslationResult[]> => {
+    const list = terms
+      .map((t, i) => `${i}. "${t.original}" (${t.category}) - context: "${t.context.replace(/\s+/g, ' ')}"`)
+      .join('\n');
+    const used = new Set(terms.map(t => t.category));
+    const guidance = formatCategoryGuidance(categories.filter(c => used.has(c.name)));
+    const prompt = `
+      Translate the following ${sourceLanguageName(languages)} webnovel terms to ${target}. Names are transliterated
+      accurately to ${target} phonetics; titles, skills and items are translated by meaning.
+      ${guidance ? `Category guidance:\n${guidance}` : ''}
+
+      For every term return:
+      - id: the number of the term in the list
+      - translation: the ${target} translation only
+      - confidence: "low" if the term is ambiguous or the context is not enough, otherwise "high"
+      - famous: true if the term comes from a well-known work (e.g. Naruto, One Piece, famous Wuxia novels)
+        whose community may already use an established ${target} rendering
+
+      Terms:
+      ${list}
+    `;
+
+    const text = await generateWithRetry({ prompt, jsonSchema: TERM_TRANSLATION_SCHEMA });
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cleanJson(text) || "[]");
+    } catch (error) {
+      throw new TranslationError('unknown', 'Model returned invalid JSON for term translation');
+    }
+    if (!Array.isArray(parsed)) {
+      throw new TranslationError('unknown', 'Model returned no result list for term translation');
+    }
+    // Malformed entries fail the batch like invalid JSON does; empty translations
+    // are dropped and those terms get a single request
+    const entries: unknown[] = parsed;
+    return entries.flatMap((entry): TermTranslationResult[] => {
+      if (!entry || typeof entry !== 'object') {
+        throw new TranslationError('unknown', 'Model returned a malformed entry for term translation');
+      }
+      const { id, translation, confidence, famous } = entry as Record<string, unknown>;
+      if (typeof id !== 'number' || !Number.isInteger(id) || !terms[id] || typeof translation !== 'string') {
+        throw new TranslationError('unknown', 'Model returned a malformed entry for term translation');
+      }
+      if (!translation.trim()) return [];
+      return [{
+        original: terms[id].original,
+        translation: translation.trim(),
+        confidence: confidence === 'low' ? 'low' : 'high',
+        famous: famous === true,
+      }];
+    });
+  };
+
+  /**
+   * 3. CONTEXT-AWARE TRANSLATION: Translates chapter text using the Glossary.
+   * Long chapters are split on paragraph boundaries and translated segment by
+   * segment; each segment sees the tail of the previous one for continuity.
+   */
+  const translateChapter = async (
+    content: string,
+    glossary: Term[],
+    options: TranslateOptions = {}
+  ): Promise<string> => {
+    const segments = splitIntoSegments(content, options.maxSegmentChars);
+    const translated: string[] = [];
+    const injected = new Set<Term>();
+
+    // Failures propagate so callers never mistake an error for a translation
+    for (let i = 0; i < segments.length; i++) {
+      const { prompt, terms } = buildSegmentPrompt(languages, segments, i, i > 0 ? translated[i - 1] : null, glossary, options);
+      terms.forEach(t => injected.add(t));
+      translated.push(await generateWithRetry({ prompt }));
+      options.onProgress?.(i + 1, segments.length);
+    }
+    options.onTermsInjected?.(Array.from(injected));
+    return translated.join('\n\n');
+  };
+
+  /**
+   * 4. GLOSSARY REPAIR: Rewrites only the mis-rendered glossary terms in an
+   * existing translation, leaving the rest of the text untouched.
+   */
+  const repairTerms = async (
+    translation: string,
+    violations: GlossaryViolation[]
+  ): Promise<string> => {
+    const rules = violations.map(v => `${v.original} -> ${v.expected}`).join('\n');
+    const segments = splitIntoSegments(translation);
+    const repaired: string[] = [];
+
+    for (const segment of segments) {
+      const prompt = `
+        The following ${target} text is a webnovel translation. Some glossary terms were
+        rendered incorrectly (transliterated differently or translated loosely).
+
+        Replace every rendering of these terms with the REQUIRED ${target} form:
+        ${rules}
+
+        RULES:
+        1. Change ONLY the words that render these terms. Adjust attached particles/articles if grammar requires.
+        2. Do not rephrase, shorten or re-translate anything else. Keep paragraph breaks.
+        3. If none of the terms appear in this passage, return it unchanged.
+        4. Output ONLY the corrected ${target} text.
+
+        TEXT:
+        ${segment}
+      `;
+      repaired.push(await generateWithRetry({ prompt }));
+    }
+    return repaired.join('\n\n');
+  };
+
+  /**
+   * 5. STORY SUMMARY: A short recap of a translated chapter, passed on as
+   * context so the next chapters keep genders and speakers straight.
+   */
+  const summarizeChapter = async (translation: string): Promise<string> => {
+    const prompt = `
+      Summarize the following ${target} webnovel chapter for a translator who continues with the next chapter.
+      Write at most 150 words in ${target}, using the names exactly as they are written in the text.
+
+      Cover:
+      - What happens, in order
+      - The characters present, with their gender and how they address each other
+      - Who is speaking at the end of the chapter, and any open conversation
+      - Running jokes, nicknames or recurring phrases
+
+      Output ONLY the summary.
+
+      CHAPTER:
+      ${translation}
+    `;
+    return generateWithRetry({ prompt });
+  };
+
+  return { supportsSearch: backend.supportsSearch, extractTerms, translateTerm, translateTerms, translateChapter, repairTerms, summarizeChapter };
+};
+
+/**
+ * The prompts translateChapter sends for `content`, one per part, for
+ * previewing a template. Later parts show a placeholder where the previous
+ * part's translation goes.
+ */
+export const previewChapterPrompts = (
+  content: string,
+  glossary: Term[],
+  options: TranslateOptions = {},
+  languages: NovelLanguages = getLanguages()
+): string[] => {
+  const segments = splitIntoSegments(content, options.maxSegmentChars);
+  const placeholder = `[${languages.target.name} translation of the previous part]`;
+  return segments.map((_, i) => buildSegmentPrompt(languages, segments, i, i > 0 ? placeholder : null, glossary, options).prompt);
+};
+
+// --- Provider Selection ---
+
+export const DEFAULT_PROVIDER: ProviderConfig = { type: 'gemini' };
+
+// Providers are stateless apart from their connection settings and languages
+const providerCache = new Map<string, TranslationProvider>();
+
+export const getProvider = (
+  config: ProviderConfig = DEFAULT_PROVIDER,
+  languages: NovelLanguages = getLanguages()
+): TranslationProvider => {
+  const key = JSON.stringify([config, languages.source?.code, languages.target.code]);
+  let provider = providerCache.get(key);
+  if (!provider) {
+    switch (config.type) {
+      case 'openai-compatible':
+        provider = createLlmProvider(createOpenAiCompatibleBackend(config), languages);
+        break;
+      case 'mock':
+        provider = createMockProvider(languages);
+        break;
+      case 'gemini':
+      default:
+        provider = createLlmProvider(createGeminiBackend(config), languages);
+    }
+    providerCache.set(key, provider);
+  }
+  return provider;
+};
+
+export const getNovelProvider = async (novelId: number): Promise<TranslationProvider> => {
+  const novel = await db.novels.get(novelId);
+  return getProvider(novel?.provider, getLanguages(novel));
+};
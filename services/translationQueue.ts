@@ -0,0 +1,204 @@
+import { db } from './db';
+import { Chapter, TranslationJob } from '../types';
+import { translateAndSaveChapter } from './chapterTranslation';
+import { classifyError, describeTranslationError } from './translationErrors';
+import { getEffectiveGlossary } from './sharedGlossaries';
+
+// Persistent bulk translation queue. Jobs live in Dexie, so progress survives
+// navigation and reloads; a single module-level worker processes them one
+// chapter at a time across all novels. A Web Lock keeps it to one worker
+// across tabs, since every tab shares the same database.
+
+const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 10 * 60 * 1000;
+// Small delay between chapters to be nice to the API
+const JOB_SPACING_MS = 1000;
+const QUEUE_LOCK = 'translation-queue';
+
+let isWorkerRunning = false;
+// Set when the queue was kicked while the worker ran; it may have just found nothing to do
+let runAgain = false;
+let wakeWorker: (() => void) | null = null;
+
+// --- Helpers ---
+
+const sleep = (ms: number) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  // enqueue/retry can cut a backoff wait short
+  wakeWorker = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+});
+
+// Runs `work` while no other tab's worker does. Without Web Locks (old
+// browsers, insecure origins) tabs are not coordinated.
+const withQueueLock = async (work: () => Promise<void>) => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    await navigator.locks.request(QUEUE_LOCK, work);
+  } else {
+    await work();
+  }
+};
+
+const backoffDelay = (attempts: number) => Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+
+// Next job that may run now, or the time until the earliest backed-off one
+const pickNextJob = async (): Promise<{ job?: TranslationJob; waitMs?: number }> => {
+  const queued = await db.jobs.where('status').equals('queued').toArray();
+  if (queued.length === 0) return {};
+
+  const pausedNovels = new Set(
+    (await db.novels.toArray()).filter(n => n.queuePaused).map(n => n.id)
+  );
+  const now = Date.now();
+  const active = queued
+    .filter(j => !pausedNovels.has(j.novelId))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.chapterOrder - b.chapterOrder);
+
+  const ready = active.find(j => !j.nextAttemptAt || j.nextAttemptAt.getTime() <= now);
+  if (ready) return { job: ready };
+  if (active.length === 0) return {};
+  return { waitMs: Math.min(...active.map(j => j.nextAttemptAt!.getTime() - now)) };
+};
+
+const processJob = async (job: TranslationJob) => {
+  const attempts = job.attempts + 1;
+  await db.jobs.update(job.id!, { status: 'running', attempts, progress: '', updatedAt: new Date() });
+
+  const chapter = await db.chapters.get(job.chapterId);
+  if (!chapter) {
+    await db.jobs.delete(job.id!);
+    return;
+  }
+
+  try {
+    // Fresh glossary per chapter so edits made mid-batch apply
+    const glossary = await getEffectiveGlossary(job.novelId);
+    await translateAndSaveChapter(chapter, glossary, {
+      onProgress: (done, total) => {
+        if (total > 1) db.jobs.update(job.id!, { progress: `part ${done}/${total}` });
+      }
+    });
+    await db.jobs.update(job.id!, { status: 'done', progress: '', lastError: undefined, updatedAt: new Date() });
+  } catch (e) {
+    const error = classifyError(e);
+    console.error(`Failed to translate ${chapter.title}`, error);
+    // Quota, server and network errors are worth retrying later
+    const retry = error.retryable && attempts < MAX_ATTEMPTS;
+    await db.jobs.update(job.id!, {
+      status: retry ? 'queued' : 'failed',
+      nextAttemptAt: retry ? new Date(Date.now() + backoffDelay(attempts)) : undefined,
+      progress: '',
+      lastError: describeTranslationError(error),
+      updatedAt: new Date()
+    });
+  }
+};
+
+// --- Core Functions ---
+
+/**
+ * Starts the worker if it is not already running. Safe to call repeatedly.
+ * While another tab's worker holds the queue, this one waits its turn; the
+ * other worker picks up newly queued jobs in the meantime.
+ */
+export const runTranslationQueue = async () => {
+  if (isWorkerRunning) {
+    runAgain = true;
+    wakeWorker?.();
+    return;
+  }
+  isWorkerRunning = true;
+  try {
+    await withQueueLock(async () => {
+      runAgain = false;
+      // With the lock held no worker is translating, so 'running' jobs were
+      // left behind by a tab that closed mid-chapter
+      await db.jobs.where('status').equals('running').modify({ status: 'queued', progress: '' });
+      while (true) {
+        const { job, waitMs } = await pickNextJob();
+        if (job) {
+          await processJob(job);
+          await sleep(JOB_SPACING_MS);
+        } else if (waitMs !== undefined) {
+          await sleep(Math.max(waitMs, 0));
+        } else {
+          break;
+        }
+      }
+    });
+  } finally {
+    isWorkerRunning = false;
+    wakeWorker = null;
+  }
+  // Jobs queued between the last empty pick and the exit above
+  if (runAgain) {
+    runAgain = false;
+    runTranslationQueue();
+  }
+};
+
+/**
+ * Called on app start: picks up queued jobs and, once no other tab is working
+ * on them, jobs left 'running' by a closed tab.
+ */
+export const resumeTranslationQueue = () => {
+  runTranslationQueue();
+};
+
+/**
+ * Queues chapters for translation as a new batch. Finished jobs from earlier
+ * batches of the novel are cleared; chapters already queued are skipped.
+ */
+export const enqueueChapters = async (novelId: number, chapters: Chapter[]) => {
+  await (db as any).transaction('rw', db.jobs, db.novels, async () => {
+    await db.jobs.where({ novelId }).filter(j => j.status === 'done').delete();
+    const pending = new Set(
+      (await db.jobs.where({ novelId }).filter(j => j.status === 'queued' || j.status === 'running').toArray())
+        .map(j => j.chapterId)
+    );
+    const now = new Date();
+    await db.jobs.bulkAdd(
+      chapters
+        .filter(c => !pending.has(c.id!))
+        .map(c => ({
+          novelId,
+          chapterId: c.id!,
+          chapterOrder: c.order,
+          status: 'queued' as const,
+          attempts: 0,
+          createdAt: now,
+          updatedAt: now
+        }))
+    );
+    await db.novels.update(novelId, { queuePaused: false });
+  });
+  runTranslationQueue();
+};
+
+export const setQueuePaused = async (novelId: number, paused: boolean) => {
+  await db.novels.update(novelId, { queuePaused: paused });
+  if (!paused) runTranslationQueue();
+};
+
+// Drops everything still waiting; a chapter already running finishes
+export const cancelQueuedJobs = async (novelId: number) => {
+  await db.jobs.where({ novelId }).filter(j => j.status === 'queued').delete();
+};
+
+export const retryJobs = async (jobIds: number[]) => {
+  await db.jobs.where('id').anyOf(jobIds).modify({
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: undefined,
+    lastError: undefined,
+    updatedAt: new Date()
+  });
+  runTranslationQueue();
+};
+
+export const dismissJobs = async (jobIds: number[]) => {
+  await db.jobs.bulkDelete(jobIds);
+};
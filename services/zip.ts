@@ -0,0 +1,179 @@
+// Minimal ZIP support for EPUB import/export.
+// The writer only STOREs: EPUB requires the `mimetype` entry to be stored
+// uncompressed anyway, and translated text is small enough that skipping
+// deflate is not a concern. The reader handles STORE and DEFLATE.
+
+export interface ZipEntry {
+  path: string;
+  data: string | Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+// --- Helpers ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// DOS date/time format used in ZIP headers
+const dosDateTime = (date: Date) => {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+};
+
+// --- Core Functions ---
+
+/**
+ * Packs entries into a ZIP archive, preserving their order.
+ * Order matters for EPUB: `mimetype` must be the first entry.
+ */
+export const createZip = (entries: ZipEntry[], mimeType = 'application/zip'): Blob => {
+  const { time, day } = dosDateTime(new Date());
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // local file header signature
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, 0x0800, true); // UTF-8 file names
+    lv.setUint16(8, 0, true); // STORE
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, day, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, 0x02014b50, true); // central directory signature
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, day, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true); // offset of local header
+    header.set(name, 46);
+
+    parts.push(local, data);
+    central.push(header);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // end of central directory
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: mimeType });
+};
+
+// --- Reader ---
+
+export interface ZipArchive {
+  files: string[];
+  read: (path: string) => Promise<Uint8Array | null>;
+  readText: (path: string) => Promise<string | null>;
+}
+
+interface CentralEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads a ZIP archive (STORE and DEFLATE entries) such as an EPUB.
+ * Entries are only decompressed when requested.
+ */
+export const readZip = async (blob: Blob): Promise<ZipArchive> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // The end of central directory record sits in the last 22 bytes + an optional comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid ZIP archive');
+
+  const count = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, CentralEntry>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== 0x02014b50) throw new Error('Corrupt ZIP central directory');
+    const method = view.getUint16(pos + 10, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+    entries.set(name, { method, compressedSize, localOffset });
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (path: string): Promise<Uint8Array | null> => {
+    const entry = entries.get(path);
+    if (!entry) return null;
+    const local = entry.localOffset;
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflateRaw(data);
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for ${path}`);
+  };
+
+  const readText = async (path: string): Promise<string | null> => {
+    const data = await read(path);
+    return data ? new TextDecoder().decode(data) : null;
+  };
+
+  return { files: Array.from(entries.keys()), read, readText };
+};
@@ -1,3 +1,4 @@
+// Built-in categories, used until a novel defines its own
 export enum TermCategory {
   PERSON = 'Person',
   LOCATION = 'Location',
@@ -7,13 +8,90 @@ export enum TermCategory {
   OTHER = 'Other'
 }
 
+export type CategoryColor = 'blue' | 'green' | 'orange' | 'purple' | 'red' | 'amber' | 'teal' | 'pink' | 'slate';
+
+// A term category of one novel, e.g. "Cultivation Realm" or "System Message"
+export interface CategoryDefinition {
+  name: string;
+  color: CategoryColor;
+  guidance?: string; // How terms of this category should be translated; sent to the model
+}
+
 export interface Term {
   id?: number;
-  novelId: number;
+  novelId: number; // SHARED_NOVEL_ID for terms of a shared glossary
+  sharedGlossaryId?: number; // Set on terms that belong to a shared glossary
   original: string;
   translation: string;
-  category: TermCategory;
+  category: string; // Name of one of the novel's categories
   isLocked: boolean; // If true, AI scan won't overwrite it
+  aliases?: TermAlias[]; // Other surface forms of the same entity in the source
+  notes?: string; // Translator notes, e.g. why this rendering was chosen
+  occurrences?: number; // Matches across all chapters, refreshed by each Deep Scan
+  firstSeenOrder?: number; // Order of the first chapter containing the term
+  profile?: CharacterProfile; // Characters only: what the translation needs for agreement and tone
+}
+
+export type CharacterGender = 'male' | 'female' | 'plural' | 'unknown';
+
+export type SpeechRegister = 'formal' | 'casual' | 'mixed';
+
+export interface CharacterRelationship {
+  name: string; // The other character, as written in the source
+  relation: string; // e.g. "older sister", "master"
+  address?: string; // How this character addresses them, e.g. "Senior Brother"
+}
+
+// Sent with the glossary entry whenever the character occurs in a passage
+export interface CharacterProfile {
+  gender?: CharacterGender; // 'plural' for groups referred to as one entity
+  register?: SpeechRegister; // How the character speaks
+  addressedAs?: string; // How others usually address the character
+  relationships?: CharacterRelationship[];
+}
+
+// A glossary attached to several novels, e.g. all books of one universe
+export interface SharedGlossary {
+  id?: number;
+  name: string;
+  description?: string;
+  createdAt: Date;
+}
+
+// Another way the source refers to a term: a given name, a title
+// ("Young Master Lin") or a different romanization
+export interface TermAlias {
+  source: string;
+  translation?: string; // Falls back to the term's translation
+}
+
+// 'pending' while the scan still has to translate it, then 'proposed' until
+// reviewed; 'rejected' keeps later scans from proposing it again
+export type CandidateStatus = 'pending' | 'proposed' | 'rejected';
+
+// Term found by a Deep Scan that is not yet in the glossary
+export interface TermCandidate {
+  id?: number;
+  novelId: number;
+  key: string; // Lowercased original, used to merge duplicates across windows
+  original: string;
+  category: string;
+  occurrences: number; // Counted over all chapters once extraction is done
+  firstSeenOrder: number;
+  context: string; // Snippet around the first occurrence, used when translating
+  status: CandidateStatus;
+  translation?: string; // The model's proposal
+  confidence?: 'high' | 'low';
+  needsLookup?: boolean; // Unsure or famous; the optional search pass re-checks it
+  profile?: CharacterProfile; // Extracted for characters, merged across windows
+}
+
+export type DeepScanMode = 'all' | 'new';
+
+export interface DeepScanState {
+  mode: DeepScanMode;
+  startedAt: Date; // Chapters scanned before this are rescanned in 'all' mode
+  searchPass: boolean; // Re-check flagged terms one by one with search grounding
 }
 
 export interface Chapter {
@@ -24,6 +102,39 @@ export interface Chapter {
   content: string;
   translatedContent?: string;
   lastTranslated?: Date;
+  injectedTermIds?: number[]; // Glossary terms sent with the last machine translation
+  glossaryViolations?: GlossaryViolation[]; // Set by the compliance check after translating/editing
+  translationStatus?: TranslationStatus; // Missing on chapters never sent to a model
+  lastError?: ChapterError; // Why the last machine translation failed
+  scannedAt?: Date; // Last Deep Scan that covered this chapter
+  glossaryVersion?: string; // Fingerprint of the glossary the current translation was produced with
+  termRenderings?: GlossarySnapshotEntry[]; // Renderings the current translation was produced with
+  summary?: string; // Short recap of the translated chapter, sent as context for later chapters
+  segments?: TranslationSegment[]; // translatedContent aligned to source paragraphs, for the bilingual reader
+}
+
+// Translation of consecutive source paragraphs (non-empty lines); `from` === `to` for text with no source
+export interface TranslationSegment {
+  from: number; // Index of the first source paragraph
+  to: number; // One past the last
+  text: string;
+}
+
+export type TranslationStatus = 'untranslated' | 'translated' | 'failed';
+
+export type TranslationErrorKind = 'quota' | 'auth' | 'safety' | 'truncated' | 'network' | 'server' | 'unknown';
+
+export interface ChapterError {
+  kind: TranslationErrorKind;
+  message: string;
+  at: Date;
+}
+
+export interface GlossaryViolation {
+  termId: number;
+  original: string;
+  expected: string; // The required Term.translation
+  sourceCount: number; // Occurrences of the term in the source chapter
 }
 
 export interface Novel {
@@ -33,12 +144,112 @@ export interface Novel {
   coverUrl?: string;
   description?: string;
   createdAt: Date;
+  provider?: ProviderConfig; // Translation backend for this novel (defaults to Gemini)
+  queuePaused?: boolean; // Bulk translation jobs for this novel are on hold
+  deepScan?: DeepScanState; // Set while a Deep Scan is unfinished, so it can be resumed
+  dismissedGlossaryIssues?: string[]; // Glossary analysis issues marked as intended
+  sharedGlossaryIds?: number[]; // Attached shared glossaries, highest precedence first
+  categories?: CategoryDefinition[]; // Term categories; the built-in ones when unset
+  sourceLanguage?: string; // Language code; the model works it out when unset
+  targetLanguage?: string; // Language code; Arabic when unset
+  prompt?: PromptSettings; // Style guide and chapter prompt template; built-in ones when unset
+  storyContext?: StoryContextSettings; // Rolling chapter summaries; off when unset
+}
+
+export interface StoryContextSettings {
+  enabled: boolean; // Summarize chapters after translating and pass earlier summaries on
+  chapters: number; // How many previous summaries go into a prompt
+}
+
+// A previous chapter's summary as it is put into a prompt
+export interface StorySummary {
+  order: number;
+  title: string;
+  summary: string;
+}
+
+// The editable part of the chapter translation prompt
+export interface PromptSettings {
+  styleGuide: string; // Register, honorifics, system messages, sound effects...
+  template: string; // Chapter prompt with {{variables}}
+}
+
+// Every saved change to a novel's PromptSettings, numbered per novel
+export interface PromptVersion extends PromptSettings {
+  id?: number;
+  novelId: number;
+  version: number;
+  note?: string; // e.g. "Restored from v2"
+  createdAt: Date;
+}
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface Language {
+  code: string; // BCP 47, e.g. 'ar', 'fr', 'zh'
+  name: string; // English name, used in prompts and file names
+  dir: TextDirection;
+  fontClass: string; // Tailwind font family for text in this language
+}
+
+export type ProviderType = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  model?: string; // Provider default when empty
+  baseUrl?: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  apiKey?: string; // Overrides the build-time Gemini key / sent as Bearer token
+}
+
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+// One chapter in the persistent bulk translation queue
+export interface TranslationJob {
+  id?: number;
+  novelId: number;
+  chapterId: number;
+  chapterOrder: number; // Jobs run in chapter order within a batch
+  status: JobStatus;
+  attempts: number;
+  nextAttemptAt?: Date; // Backoff: not picked up before this time
+  progress?: string; // e.g. "part 2/5" while running
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RevisionSource = 'ai' | 'manual' | 'import';
+
+export interface GlossarySnapshotEntry {
+  termId?: number;
+  original: string;
+  translation: string;
+}
+
+export interface ChapterRevision {
+  id?: number;
+  novelId: number;
+  chapterId: number;
+  content: string;
+  source: RevisionSource;
+  glossary: GlossarySnapshotEntry[]; // Terms as they were when this text was produced
+  note?: string; // e.g. "Glossary repair", "Restored from ..."
+  createdAt: Date;
+  updatedAt?: Date; // Consecutive manual saves are folded into one revision
 }
 
 export interface ViewState {
   view: 'library' | 'novel' | 'glossary' | 'reader';
   novelId?: number;
   chapterId?: number;
+  focus?: ReaderFocus; // Spot to show when opening the reader, e.g. from the concordance
+}
+
+// A term occurrence in a chapter: source offsets and its paragraph index
+export interface ReaderFocus {
+  start: number;
+  end: number;
+  paragraph: number; // Source paragraph (non-empty line), as in TranslationSegment
 }
 
 export interface ReaderSettings {
@@ -46,5 +257,6 @@ export interface ReaderSettings {
   lineHeight: number; // relative
   fontFamily: 'sans' | 'serif' | 'mono';
   showOriginal: boolean; // Split view
+  splitLayout?: 'columns' | 'interleaved'; // Rows of the split view; side by side when unset
   theme: 'light' | 'dark';
 }